@@ -1,11 +1,77 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
 import { DandelionCanvas } from './components/DandelionCanvas';
-import { AudioService } from './services/audioService';
+import { AudioService, DEFAULT_SENSITIVITY } from './services/audioService';
 import { MotionService } from './services/motionService';
-import { GameState, DandelionColor } from './types';
-import { Play, Mic, Camera, Info } from 'lucide-react';
+import { BreathingService, BREATHING_PROGRAMS, isReleasePhase } from './services/breathingService';
+import { HistoryService, dayKey } from './services/historyService';
+import { CalibrationService } from './services/calibrationService';
+import {
+  InputSource, MediaDeviceSource, MicrophoneSource, CameraSource, KeyboardSource, PointerSource, GamepadSource,
+  mixSignals, loadInputSelection, saveInputSelection
+} from './services/inputSources';
+import { TraceRecorder, TracePlayer, downloadTrace, parseTrace } from './services/traceService';
+import { SensorStore } from './services/sensorStore';
+import { SESSION_DURATIONS, SessionTimer } from './services/sessionTimer';
+import { AchievementService, achievementStatus } from './services/achievementService';
+import { MeadowService, SeedLanding } from './services/meadowService';
+import { ThemeService } from './services/themeService';
+import { SoundscapeService } from './services/soundscapeService';
+import { CaptureService, downloadCapture, loadCaptureSettings, saveCaptureSettings } from './services/captureService';
+import { DeviceChoice, DeviceKind, loadDeviceChoice, saveDeviceChoice } from './services/deviceService';
+import { AccessibilitySettings, loadAccessibilitySettings, saveAccessibilitySettings, systemPrefersReducedMotion, watchReducedMotion } from './services/accessibilityService';
+import { BUILT_IN_THEMES, DEFAULT_THEME, findTheme, skyGradient } from './services/themes';
+import { BreathingGuide } from './components/BreathingGuide';
+import { ActionHints } from './components/ActionHints';
+import { BlowMeter } from './components/BlowMeter';
+import { BreathRate } from './components/BreathRate';
+import { CalmingPhrase } from './components/CalmingPhrase';
+import { SessionProgress } from './components/SessionProgress';
+import { SessionSummary } from './components/SessionSummary';
+import { AchievementGallery, achievementTitle } from './components/AchievementGallery';
+import { AchievementToast } from './components/AchievementToast';
+import { Announcement, LiveAnnouncer } from './components/LiveAnnouncer';
+import { useI18n } from './hooks/useI18n';
+import { LOCALES, MessageKey } from './services/i18n';
+import { MeadowCanvas } from './components/MeadowCanvas';
+import { ThemeEditor } from './components/ThemeEditor';
+import { HistoryPanel } from './components/HistoryPanel';
+import { CalibrationWizard } from './components/CalibrationWizard';
+import { SensorIndicators, SENSOR_LABELS } from './components/SensorIndicators';
+import { DevicePicker } from './components/DevicePicker';
+import { AchievementId, GameState, DandelionTheme, FlowerSpec, RespirationSample, SessionRecord, SensitivityProfile, SensorStatus, InputSourceId, QualityTier } from './types';
+import { tiersFor } from './services/qualityService';
+import { RendererBackend } from './services/renderer';
+import { Play, Mic, Camera, Info, History, SlidersHorizontal, Keyboard, Hand, Gamepad2, Circle, Square, Upload, Gauge, Palette, Volume2, VolumeX, Languages, Sparkles, Contrast, ImageDown, Clapperboard, CalendarDays, Download, X, Trophy } from 'lucide-react';
+
+// How often the running session is flushed to local storage
+const SESSION_SAVE_INTERVAL = 5000;
+// How often the breathing rate is written into the session
+const RESPIRATION_LOG_INTERVAL = 30000;
+// Head speed (sway units per second) above which the user counts as swaying
+const SWAY_SPEED_THRESHOLD = 0.4;
+// How long the scene fades and the flowers settle before a timed session's summary
+const ENDING_FADE_MS = 4000;
+
+const INPUT_OPTIONS: { id: InputSourceId; label: MessageKey; icon: React.ElementType }[] = [
+  { id: 'camera', label: 'input.camera', icon: Camera },
+  { id: 'microphone', label: 'input.microphone', icon: Mic },
+  { id: 'keyboard', label: 'input.keyboard', icon: Keyboard },
+  { id: 'pointer', label: 'input.pointer', icon: Hand },
+  { id: 'gamepad', label: 'input.gamepad', icon: Gamepad2 }
+];
+
+// Stand in for a mic or camera that couldn't start, so blowing and swaying still work
+const FALLBACK_INPUTS: InputSourceId[] = ['keyboard', 'pointer'];
+
+// The first flower is the main one; breath goes wherever the head points
+const DEFAULT_FLOWERS: FlowerSpec[] = [
+  { id: 'center', x: 0.5, scale: 1, theme: 'white' },
+  { id: 'left', x: 0.2, scale: 0.7, theme: 'lavender' },
+  { id: 'right', x: 0.8, scale: 0.7, theme: 'pink' }
+];
 
 const App: React.FC = () => {
+  const { t, locale, setLocale } = useI18n();
   const [hasStarted, setHasStarted] = useState(false);
   const [permissionsGranted, setPermissionsGranted] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -13,65 +79,513 @@ const App: React.FC = () => {
   // Game Stats
   const [happyCount, setHappyCount] = useState(0);
   const [freeCount, setFreeCount] = useState(0);
-  const [currentAction, setCurrentAction] = useState<'IDLE' | 'BLOWING' | 'SWAYING'>('IDLE');
+
+  // Session History
+  const historyService = useRef(new HistoryService());
+  const [sessions, setSessions] = useState<SessionRecord[]>(() => historyService.current.load());
+  const [showHistory, setShowHistory] = useState(false);
+  const sessionRef = useRef({
+    id: '',
+    startTime: 0,
+    releases: 0,
+    happySways: 0,
+    peakBlow: 0,
+    blowSum: 0,
+    blowSamples: 0,
+    swayMs: 0,
+    calmMs: 0,
+    activeMs: 0,
+    respiration: [] as RespirationSample[],
+    lastRespirationLog: 0,
+    lastTick: 0,
+    lastSave: 0
+  });
+  // Breathing rate samples so far this session, for the biofeedback trend
+  const [respirationTrend, setRespirationTrend] = useState<RespirationSample[]>([]);
+
+  // Timed sessions: a chosen length (null runs open-ended), then a fade and a summary
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(5);
+  const sessionTimer = useRef(new SessionTimer());
+  const [sessionPhase, setSessionPhase] = useState<'running' | 'ending' | 'summary'>('running');
+  const sessionPhaseRef = useRef(sessionPhase); // for the sensor loop
+  const [summary, setSummary] = useState<SessionRecord | null>(null);
+
+  // Achievements: checked whenever the session is saved, each shown in a passing toast
+  const achievementService = useRef(new AchievementService());
+  const [achievementToasts, setAchievementToasts] = useState<AchievementId[]>([]);
+  const [showAchievements, setShowAchievements] = useState(false);
   
-  // Customization
-  const [selectedColor, setSelectedColor] = useState<DandelionColor>('white');
+  // Meadow: seeds that took root on earlier visits
+  const meadowService = useRef(new MeadowService());
+  const [meadow, setMeadow] = useState(() => meadowService.current.load());
+
+  const handleSeedLanded = (landing: SeedLanding) => {
+    const next = meadowService.current.tryRoot(landing);
+    if (next) setMeadow(next);
+  };
+
+  // Customization: the main flower in the middle, two smaller ones either side
+  const [flowers, setFlowers] = useState<FlowerSpec[]>(DEFAULT_FLOWERS);
+
+  // Themes: the built-ins plus the user's own. While the editor is open the flower being
+  // edited (and the sky, for the main flower) shows the theme being edited.
+  const themeService = useRef(new ThemeService());
+  const [userThemes, setUserThemes] = useState(() => themeService.current.load());
+  const [showThemeEditor, setShowThemeEditor] = useState(false);
+  const [editingFlowerId, setEditingFlowerId] = useState(DEFAULT_FLOWERS[0].id);
+  const [previewTheme, setPreviewTheme] = useState<DandelionTheme | null>(null);
+  const themes = useMemo(() => [...BUILT_IN_THEMES, ...userThemes], [userThemes]);
+  const themesById = useMemo(() => {
+    const byId: Record<string, DandelionTheme> = {};
+    themes.forEach(t => { byId[t.id] = t; });
+    if (previewTheme) byId[previewTheme.id] = previewTheme;
+    return byId;
+  }, [themes, previewTheme]);
+  const sceneFlowers = previewTheme
+    ? flowers.map(f => f.id === editingFlowerId ? { ...f, theme: previewTheme.id } : f)
+    : flowers;
+  const mainTheme = findTheme(themesById, sceneFlowers[0].theme);
+
+  const setFlowerTheme = (flowerId: string, themeId: string) => {
+    setFlowers(current => current.map(f => f.id === flowerId ? { ...f, theme: themeId } : f));
+  };
+
+  // Tapping a flower steps it through the theme list
+  const cycleColor = (flowerId: string) => {
+    const flower = flowers.find(f => f.id === flowerId);
+    if (!flower) return;
+    const next = themes[(themes.findIndex(t => t.id === flower.theme) + 1) % themes.length];
+    setFlowerTheme(flowerId, next.id);
+    announce(t('a11y.themeChanged', { flower: flowerName(flower), theme: themeName(next) }));
+  };
+
+  const handleThemeSave = (theme: DandelionTheme) => {
+    setUserThemes(themeService.current.saveTheme(theme));
+    setFlowerTheme(editingFlowerId, theme.id);
+  };
+
+  const handleThemeDelete = (id: string) => {
+    setUserThemes(themeService.current.deleteTheme(id));
+    setFlowers(current => current.map(f => f.theme === id ? { ...f, theme: DEFAULT_THEME.id } : f));
+  };
+
+  // From the settings button for the main flower, or a long press on any flower
+  const openThemeEditor = (flowerId: string) => {
+    setEditingFlowerId(flowerId);
+    setPreviewTheme(null);
+    setShowThemeEditor(true);
+  };
 
-  // Color Definitions for cycling
-  const colorOptions: { key: DandelionColor; hex: string }[] = [
-    { key: 'white', hex: '#ffffff' },
-    { key: 'deepBlue', hex: '#5D7FE5' },
-    { key: 'lavender', hex: '#9899EE' },
-    { key: 'periwinkle', hex: '#B7C2ED' },
-    { key: 'pale', hex: '#FBE8FD' },
-    { key: 'pink', hex: '#FDBBDB' }
-  ];
+  // Captures: a snapshot on demand, and a clip of each release while clips are on
+  const captureService = useRef(new CaptureService());
+  const meadowCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [captureSettings, setCaptureSettings] = useState(loadCaptureSettings);
+  const [keepingClips, setKeepingClips] = useState(false);
+  const [clip, setClip] = useState<Blob | null>(null);
 
-  const cycleColor = () => {
-    const currentIndex = colorOptions.findIndex(c => c.key === selectedColor);
-    const nextIndex = (currentIndex + 1) % colorOptions.length;
-    setSelectedColor(colorOptions[nextIndex].key);
+  const takeSnapshot = async () => {
+    const blob = await captureService.current.snapshot();
+    if (blob) downloadCapture(blob, 'png');
   };
 
-  // Real-time sensor values
-  const [swayValue, setSwayValue] = useState(0);
-  const [blowStrength, setBlowStrength] = useState(0);
+  const toggleClips = () => {
+    if (keepingClips) captureService.current.stopBuffer();
+    else captureService.current.startBuffer(setClip);
+    setKeepingClips(!keepingClips);
+  };
+
+  const toggleCaptureOverlay = () => {
+    const next = { ...captureSettings, overlay: !captureSettings.overlay };
+    saveCaptureSettings(next);
+    setCaptureSettings(next);
+  };
+
+  const closeThemeEditor = () => {
+    setShowThemeEditor(false);
+    setPreviewTheme(null);
+  };
+
+  // Guided breathing (null = free play)
+  const [programId, setProgramId] = useState<string | null>(null);
+  const activeProgram = BREATHING_PROGRAMS.find(p => p.id === programId) ?? null;
+
+  // Microphone sensitivity, calibrated per input device
+  const calibrationService = useRef(new CalibrationService());
+  const [calibrating, setCalibrating] = useState(false);
+  const [blowThreshold, setBlowThreshold] = useState(DEFAULT_SENSITIVITY.threshold);
+
+  // Rendering quality: 'auto' follows measured frame times
+  const [qualityMode, setQualityMode] = useState<QualityTier | 'auto'>('auto');
+  const [qualityTier, setQualityTier] = useState<QualityTier>('high');
+  const [rendererBackend, setRendererBackend] = useState<RendererBackend>('canvas2d');
+
+  const cycleQuality = () => {
+    const modes: (QualityTier | 'auto')[] = ['auto', ...tiersFor(rendererBackend)];
+    const next = modes[(modes.indexOf(qualityMode) + 1) % modes.length];
+    setQualityMode(next);
+    if (next !== 'auto') setQualityTier(next);
+  };
+
+  // Real-time sensor values live outside React state; the canvas reads them every tick
+  const sensorStore = useRef(new SensorStore());
+  const prevMotionRef = useRef(0);
 
   const audioService = useRef(new AudioService());
+  // Sound output; separate from the microphone so it can't feed blow detection
+  const soundscape = useRef(new SoundscapeService());
+  const [soundSettings, setSoundSettings] = useState(() => soundscape.current.getSettings());
+  const regrowingRef = useRef(new Set<string>());
+
+  const setVolume = (volume: number) => {
+    soundscape.current.setVolume(volume);
+    if (volume > 0) soundscape.current.setMuted(false);
+    setSoundSettings(soundscape.current.getSettings());
+  };
+
+  const toggleMute = () => {
+    soundscape.current.setMuted(!soundSettings.muted);
+    setSoundSettings(soundscape.current.getSettings());
+  };
   const motionService = useRef(new MotionService());
-  const loopRef = useRef<number>();
 
-  const startExperience = async () => {
+  // Accessibility: reduced motion follows the system until the user picks a setting
+  const [a11y, setA11y] = useState(loadAccessibilitySettings);
+  const [systemReducedMotion, setSystemReducedMotion] = useState(systemPrefersReducedMotion);
+  const reducedMotion = a11y.reducedMotion ?? systemReducedMotion;
+  useEffect(() => watchReducedMotion(setSystemReducedMotion), []);
+  useEffect(() => {
+    document.documentElement.classList.toggle('reduce-motion', reducedMotion);
+    document.documentElement.classList.toggle('high-contrast', a11y.highContrast);
+  }, [reducedMotion, a11y.highContrast]);
+
+  const updateA11y = (change: Partial<AccessibilitySettings>) => {
+    const next = { ...a11y, ...change };
+    saveAccessibilitySettings(next);
+    setA11y(next);
+  };
+
+  // Read out by screen readers; what happens on the canvas is otherwise silent
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+  const announce = (text: string) => setAnnouncement(last => ({ id: (last?.id ?? 0) + 1, text }));
+
+  const themeName = (theme: DandelionTheme) => theme.builtIn ? t(`theme.${theme.id}` as MessageKey) : theme.name;
+  const flowerName = (flower: FlowerSpec) =>
+    t(flower.x < 0.4 ? 'a11y.flower.left' : flower.x > 0.6 ? 'a11y.flower.right' : 'a11y.flower.center');
+  const flowerLabel = (flower: FlowerSpec) =>
+    t('a11y.flowerButton', { flower: flowerName(flower), theme: themeName(findTheme(themesById, flower.theme)) });
+
+  // Input sources: the user's selection, and the ones that actually started
+  const [enabledInputs, setEnabledInputs] = useState<InputSourceId[]>(loadInputSelection);
+  const [activeInputs, setActiveInputs] = useState<InputSource[]>([]);
+  const [inputNotice, setInputNotice] = useState<string | null>(null);
+  const sourcesRef = useRef<InputSource[]>([]);
+
+  // Which mic and camera to use, and how each is doing
+  const [deviceChoice, setDeviceChoice] = useState<DeviceChoice>(loadDeviceChoice);
+  const [sensorStatus, setSensorStatus] = useState<Partial<Record<DeviceKind, SensorStatus>>>({});
+  const [showDevices, setShowDevices] = useState(false);
+
+  // Sensor traces: record what the canvas sees, or replay a saved trace instead of live input
+  const recorderRef = useRef(new TraceRecorder());
+  const [isRecording, setIsRecording] = useState(false);
+  const [replaying, setReplaying] = useState(false);
+  const liveSourcesRef = useRef<{ sources: InputSource[]; threshold: number } | null>(null);
+  // Recording and replay both restart the scene from a seed, so a replay releases the same seeds.
+  // Published with the sensor frames, so the canvas restarts in step with the input.
+  const sceneSeedRef = useRef<{ value: number }>();
+  const traceInputRef = useRef<HTMLInputElement>(null);
+
+  const toggleInput = (id: InputSourceId) => {
+    const next = enabledInputs.includes(id) ? enabledInputs.filter(i => i !== id) : [...enabledInputs, id];
+    setEnabledInputs(next);
+    saveInputSelection(next);
+  };
+
+  const createSource = (id: InputSourceId, devices = deviceChoice): InputSource => {
+    switch (id) {
+      case 'microphone': return new MicrophoneSource(audioService.current, devices.microphone, s => handleSensorStatus('microphone', s));
+      case 'camera': return new CameraSource(motionService.current, devices.camera, s => handleSensorStatus('camera', s));
+      case 'keyboard': return new KeyboardSource();
+      case 'pointer': return new PointerSource();
+      case 'gamepad': return new GamepadSource();
+    }
+  };
+
+  // Called by the sources whenever they connect, drop out or come back, long after the render
+  // that created them, so this only touches refs and setters
+  const handleSensorStatus = (kind: DeviceKind, status: SensorStatus) => {
+    setSensorStatus(current => ({ ...current, [kind]: status }));
+    if (kind !== 'microphone' || status !== 'live') return;
+
+    // A different mic may have come up, so use its calibration
+    const profile = calibrationService.current.getProfile(audioService.current.getDeviceId()) ?? DEFAULT_SENSITIVITY;
+    audioService.current.setSensitivity(profile);
+    if (liveSourcesRef.current) liveSourcesRef.current.threshold = profile.threshold;
+    else setBlowThreshold(profile.threshold);
+  };
+
+  const selectDevice = async (kind: DeviceKind, deviceId: string | null) => {
+    const next = { ...deviceChoice, [kind]: deviceId };
+    setDeviceChoice(next);
+    saveDeviceChoice(next);
+
+    const running = [...sourcesRef.current, ...(liveSourcesRef.current?.sources ?? [])].find(s => s.id === kind);
+    if (running instanceof MediaDeviceSource) {
+      await running.setDevice(deviceId);
+      return;
+    }
+
+    // Not running yet, e.g. its permission was denied at the start: try again with this device
+    const source = createSource(kind, next);
     try {
-      await Promise.all([
-        audioService.current.initialize(),
-        motionService.current.initialize()
-      ]);
-      setPermissionsGranted(true);
-      setHasStarted(true);
-      startSensorLoop();
+      await source.start();
     } catch (err) {
-      setError("Please allow camera and microphone access to play. Refresh to try again.");
       console.error(err);
+      return;
+    }
+    if (!enabledInputs.includes(kind)) toggleInput(kind);
+    if (liveSourcesRef.current) {
+      liveSourcesRef.current.sources = [...liveSourcesRef.current.sources, source];
+    } else {
+      sourcesRef.current = [...sourcesRef.current, source];
+      setActiveInputs(sourcesRef.current);
     }
   };
+  const breathingService = useRef(new BreathingService());
+  const loopRef = useRef<number>();
+
+  const sessionRecord = (): SessionRecord => {
+    const s = sessionRef.current;
+    const planned = sessionTimer.current.getDuration();
+    return {
+      id: s.id,
+      startTime: s.startTime,
+      endTime: Date.now(),
+      releases: s.releases,
+      happySways: s.happySways,
+      peakBlow: s.peakBlow,
+      averageBlow: s.blowSamples > 0 ? s.blowSum / s.blowSamples : 0,
+      swaySeconds: s.swayMs / 1000,
+      calmSeconds: s.calmMs / 1000,
+      activeSeconds: s.activeMs / 1000,
+      ...(planned !== null && { plannedMinutes: planned / 60000 }),
+      ...(s.respiration.length > 0 && { respiration: s.respiration })
+    };
+  };
+
+  const persistSession = () => {
+    const s = sessionRef.current;
+    // An ended session was saved as it finished
+    if (!s.id || sessionPhaseRef.current !== 'running') return;
+    s.lastSave = performance.now();
+    setSessions(historyService.current.saveSession(sessionRecord()));
+    checkAchievements();
+  };
+
+  // Reads everything from storage and refs, so it's safe from the sensor loop too
+  const checkAchievements = () => {
+    const { unlocked } = achievementService.current.unlockEarned(historyService.current.load(), sessionRecord());
+    if (unlocked.length > 0) setAchievementToasts(queue => [...queue, ...unlocked]);
+  };
+
+  const setPhase = (phase: 'running' | 'ending' | 'summary') => {
+    sessionPhaseRef.current = phase;
+    setSessionPhase(phase);
+  };
+
+  // Time's up: the scene fades, a chime sounds and the flowers settle, then the summary
+  const finishSession = () => {
+    persistSession();
+    achievementService.current.recordCompletedSession();
+    checkAchievements();
+    const record = sessionRecord();
+    setPhase('ending');
+    soundscape.current.ending();
+    window.setTimeout(() => {
+      setSummary(record);
+      setPhase('summary');
+    }, ENDING_FADE_MS);
+  };
+
+  // Any flower's release counts toward the session
+  const handleBlowSuccess = (flowerId: string, strength: number) => {
+    soundscape.current.release(strength);
+    captureService.current.markRelease();
+    const flower = flowers.find(f => f.id === flowerId);
+    if (flower) {
+      announce(t('a11y.released', { flower: flowerName(flower) }));
+      achievementService.current.recordRelease(flower.theme);
+    }
+    sessionRef.current.releases++;
+    setFreeCount(c => c + 1);
+    persistSession();
+  };
+
+  const handleHappySway = () => {
+    // Settling after the end of a session doesn't count
+    if (sessionPhaseRef.current !== 'running') return;
+    sessionRef.current.happySways++;
+    setHappyCount(c => c + 1);
+    announce(t('a11y.happySway'));
+    checkAchievements();
+  };
+
+  // Starts every selected source; a denied permission only drops that one source
+  const startLiveSources = async () => {
+    const candidates = enabledInputs.map(id => createSource(id));
+    const results = await Promise.allSettled(candidates.map(s => s.start()));
+    const started = candidates.filter((_, i) => results[i].status === 'fulfilled');
+    const failed = candidates.filter((_, i) => results[i].status === 'rejected');
+    results.forEach(r => { if (r.status === 'rejected') console.error(r.reason); });
+
+    // Nothing left to blow or sway with because of a failed source, even every one of them:
+    // keyboard and drag fill in, and the sensor indicators show what went wrong
+    const degraded = failed.length > 0 && (!started.some(s => s.blowHint) || !started.some(s => s.swayHint));
+    if (degraded) {
+      const fallbacks = FALLBACK_INPUTS.filter(id => !started.some(s => s.id === id)).map(id => createSource(id));
+      await Promise.all(fallbacks.map(s => s.start()));
+      started.push(...fallbacks);
+    }
+
+    if (failed.length > 0) {
+      const names = failed.map(s => t(INPUT_OPTIONS.find(o => o.id === s.id)!.label)).join(t('notice.listJoin'));
+      setInputNotice(t(degraded ? 'notice.fallback' : 'notice.inputsUnavailable', { names }));
+    }
+    return started;
+  };
+
+  const startExperience = async () => {
+    const started = await startLiveSources();
+    if (started.length === 0) {
+      setError(t('error.noInputs'));
+      return;
+    }
+
+    sourcesRef.current = started;
+    setActiveInputs(started);
+    setPermissionsGranted(true);
+
+    // The mic's calibration was applied as it came up; without one, run the wizard first
+    if (!started.some(s => s.id === 'microphone') || calibrationService.current.getProfile(audioService.current.getDeviceId())) {
+      beginSession();
+    } else {
+      setCalibrating(true);
+    }
+  };
+
+  const applySensitivity = (profile: Pick<SensitivityProfile, 'gain' | 'gate' | 'threshold'>) => {
+    audioService.current.setSensitivity(profile);
+    setBlowThreshold(profile.threshold);
+  };
+
+  const handleCalibrationComplete = (profile: SensitivityProfile) => {
+    calibrationService.current.saveProfile(profile);
+    applySensitivity(profile);
+    finishCalibration();
+  };
+
+  const finishCalibration = () => {
+    setCalibrating(false);
+    if (!hasStarted) beginSession();
+  };
+
+  const beginSession = (minutes = durationMinutes) => {
+    setHasStarted(true);
+    // Only after calibration, so the wizard measures a quiet room. The page has had a
+    // click by now, which browsers require before audio can play.
+    soundscape.current.start();
+    const now = Date.now();
+    sessionRef.current = {
+      ...sessionRef.current,
+      id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+      startTime: now,
+      releases: 0,
+      happySways: 0,
+      peakBlow: 0,
+      blowSum: 0,
+      blowSamples: 0,
+      swayMs: 0,
+      calmMs: 0,
+      activeMs: 0,
+      respiration: [],
+      lastRespirationLog: performance.now(),
+      lastTick: performance.now(),
+      lastSave: performance.now()
+    };
+    setRespirationTrend([]);
+    // The new session is counted on its own; earlier ones are in the history now
+    setFreeCount(0);
+    setHappyCount(0);
+    setSummary(null);
+    setPhase('running');
+    sessionTimer.current.start(minutes === null ? null : minutes * 60000, performance.now());
+    if (activeProgram) breathingService.current.start(activeProgram, performance.now());
+    if (!loopRef.current) startSensorLoop();
+  };
 
   const startSensorLoop = () => {
     const loop = () => {
-      // Get Mic data
-      const vol = audioService.current.getVolume();
-      setBlowStrength(vol);
+      // Read every active source and let the strongest signal win. Once a session ends
+      // the input is let go, so the flowers settle.
+      const running = sessionPhaseRef.current === 'running';
+      const live = mixSignals(sourcesRef.current.map(s => s.read()));
+      const signal = running ? live : { ...live, sway: 0, blow: 0, nod: 0, tilt: 0 };
+      const vol = signal.blow;
+      const motion = signal.sway;
+
+      // Advance the breathing guide, scoring the measured breath against the pattern
+      const guide = breathingService.current.update(performance.now(), vol);
+
+      // Accumulate session stats
+      const now = performance.now();
+      const session = sessionRef.current;
+      const dt = now - session.lastTick;
+      session.lastTick = now;
 
-      // Get Camera motion
-      const motion = motionService.current.getHorizontalMotion();
-      // Smooth the motion value for React state to avoid jittery UI updates if we display it,
-      // but passed raw-ish to canvas
-      setSwayValue(motion);
+      // Position is held while still, so "swaying" means the input is actually moving
+      const swaySpeed = dt > 0 ? Math.abs(motion - prevMotionRef.current) / (dt / 1000) : 0;
+      prevMotionRef.current = motion;
+      const isSwaying = swaySpeed > SWAY_SPEED_THRESHOLD;
+      soundscape.current.update(now, swaySpeed);
 
-      if (vol > 0.5) setCurrentAction('BLOWING');
-      else if (Math.abs(motion) > 0.3) setCurrentAction('SWAYING');
-      else setCurrentAction('IDLE');
+      if (vol > 0) {
+        session.peakBlow = Math.max(session.peakBlow, vol);
+        session.blowSum += vol;
+        session.blowSamples++;
+      }
+      const action = vol > 0.5 ? 'BLOWING' : isSwaying ? 'SWAYING' : 'IDLE';
+      if (running) {
+        if (vol <= 0.5 && isSwaying) session.swayMs += dt;
+        if (action === 'IDLE') session.calmMs += dt;
+        else session.activeMs += dt;
+        if (sessionTimer.current.isFinished(now)) finishSession();
+      }
+      // Breathing pattern from the mic, logged now and then so the session shows it slowing
+      const respiration = audioService.current.getRespiration();
+      if (running && respiration && now - session.lastRespirationLog > RESPIRATION_LOG_INTERVAL) {
+        session.lastRespirationLog = now;
+        session.respiration = [...session.respiration, {
+          t: Math.round((Date.now() - session.startTime) / 1000),
+          bpm: Math.round(respiration.bpm * 10) / 10,
+          exhaleSeconds: Math.round(respiration.exhaleSeconds * 10) / 10,
+          ratio: Math.round(respiration.ratio * 100) / 100
+        }];
+        setRespirationTrend(session.respiration);
+      }
+      if (running && now - session.lastSave > SESSION_SAVE_INTERVAL) persistSession();
+
+      sensorStore.current.publish({
+        sway: motion,
+        blow: vol,
+        nod: signal.nod ?? 0,
+        tilt: signal.tilt ?? 0,
+        action,
+        guide,
+        releaseAllowed: running && (!guide || isReleasePhase(guide.phase)),
+        respiration,
+        dt: signal.dt,
+        sceneSeed: sceneSeedRef.current
+      }, now);
 
       loopRef.current = requestAnimationFrame(loop);
     };
@@ -79,17 +593,141 @@ const App: React.FC = () => {
   };
 
   useEffect(() => {
+    // Closing the tab doesn't unmount React, so flush the session on pagehide too
+    window.addEventListener('pagehide', persistSession);
+    // A hidden tab pauses the session: the clock stops and the sound goes quiet
+    const onVisibilityChange = () => {
+      const now = performance.now();
+      if (document.hidden) {
+        sessionTimer.current.pause(now);
+        soundscape.current.setPaused(true);
+        persistSession();
+      } else {
+        sessionTimer.current.resume(now);
+        sessionRef.current.lastTick = now;
+        soundscape.current.setPaused(false);
+      }
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
     return () => {
+      window.removeEventListener('pagehide', persistSession);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      persistSession();
       if (loopRef.current) cancelAnimationFrame(loopRef.current);
-      audioService.current.cleanup();
-      motionService.current.cleanup();
+      soundscape.current.stop();
+      captureService.current.stopBuffer();
+      sourcesRef.current.forEach(s => s.stop());
+      liveSourcesRef.current?.sources.forEach(s => s.stop());
     };
   }, []);
 
-  const handleStateChange = (state: GameState) => {
-    // console.log("State changed:", state);
+  const handleStateChange = (state: GameState, flowerId: string) => {
+    recorderRef.current.recordState(state, flowerId);
+    const player = sourcesRef.current.find((s): s is TracePlayer => s instanceof TracePlayer);
+    const divergedAt = player?.checkState(state, flowerId) ?? null;
+    if (divergedAt !== null) setInputNotice(t('notice.replayDiverged', { time: (divergedAt / 1000).toFixed(1) }));
+    if (state === GameState.REGROWING) {
+      regrowingRef.current.add(flowerId);
+    } else if (regrowingRef.current.delete(flowerId) && state === GameState.IDLE) {
+      const flower = flowers.find(f => f.id === flowerId);
+      if (flower) announce(t('a11y.regrown', { flower: flowerName(flower) }));
+    }
+    soundscape.current.setRegrowing(regrowingRef.current.size > 0);
+  };
+
+  // Called from the sensor loop when a replay wraps, so only refs and setters
+  const restartScene = (seed: number) => {
+    const scene = { value: seed };
+    sceneSeedRef.current = scene;
+    regrowingRef.current.clear();
+    soundscape.current.setRegrowing(false);
+    return scene;
+  };
+
+  const toggleRecording = () => {
+    if (recorderRef.current.isRecording()) {
+      downloadTrace(recorderRef.current.stop(blowThreshold));
+      setIsRecording(false);
+    } else {
+      recorderRef.current.start(restartScene(Math.floor(Math.random() * 2 ** 32)));
+      setIsRecording(true);
+    }
+  };
+
+  const loadTrace = async (file: File) => {
+    let player: TracePlayer;
+    try {
+      const trace = parseTrace(await file.text());
+      // Older traces have no seed; they still replay, just not seed for seed
+      player = new TracePlayer(trace, true, () => { if (trace.seed !== undefined) restartScene(trace.seed); });
+    } catch (err) {
+      setInputNotice(t('notice.traceFailed', { reason: (err as Error).message }));
+      return;
+    }
+    await player.start();
+
+    // Live sources keep running in the background so we can switch straight back
+    if (!liveSourcesRef.current) {
+      liveSourcesRef.current = { sources: sourcesRef.current, threshold: blowThreshold };
+    }
+    sourcesRef.current = [player];
+    setActiveInputs([player]);
+    setBlowThreshold(player.getTrace().blowThreshold);
+    setReplaying(true);
+    if (!hasStarted) beginSession();
+  };
+
+  const stopReplay = async () => {
+    const live = liveSourcesRef.current;
+    if (!live) return;
+    liveSourcesRef.current = null;
+    setReplaying(false);
+    setBlowThreshold(live.threshold);
+
+    // A replay loaded from the landing screen had nothing live behind it, so start the selection now
+    const sources = live.sources.length > 0 ? live.sources : await startLiveSources();
+    sourcesRef.current = sources;
+    setActiveInputs(sources);
   };
 
+  // "Today" spans reloads: earlier sessions from today plus the one in progress
+  const today = dayKey(Date.now());
+  const todayCounts = sessions
+    .filter(s => s.id !== sessionRef.current.id && dayKey(s.startTime) === today)
+    .reduce((acc, s) => ({ releases: acc.releases + s.releases, happySways: acc.happySways + s.happySways }), { releases: 0, happySways: 0 });
+  const todayReleases = todayCounts.releases + freeCount;
+  const todayHappySways = todayCounts.happySways + happyCount;
+
+  // Toasts are silent to screen readers, so each unlock is announced as it shows
+  const shownAchievement = achievementToasts[0];
+  useEffect(() => {
+    if (shownAchievement) announce(t('achievements.announce', { title: t(achievementTitle(shownAchievement)) }));
+  }, [shownAchievement]);
+
+  // Likewise a sensor dropping out or coming back, once the session is under way
+  const lastSensorStatus = useRef(sensorStatus);
+  useEffect(() => {
+    (Object.keys(sensorStatus) as DeviceKind[]).forEach(kind => {
+      const status = sensorStatus[kind]!;
+      const previous = lastSensorStatus.current[kind];
+      if (hasStarted && previous && previous !== status && status !== 'starting') {
+        announce(t('sensor.status', { sensor: t(SENSOR_LABELS[kind]), status: t(`sensor.${status}` as MessageKey) }));
+      }
+    });
+    lastSensorStatus.current = sensorStatus;
+  }, [sensorStatus]);
+
+  // Captures draw the sky and meadow behind the flowers, and optionally the "Today" count
+  useEffect(() => {
+    captureService.current.setBackdrop(mainTheme, meadowCanvasRef.current);
+  });
+  useEffect(() => {
+    captureService.current.setOverlay(captureSettings.overlay ? [
+      new Date().toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric' }),
+      t('capture.released', { count: todayReleases })
+    ] : null);
+  }, [captureSettings.overlay, todayReleases, locale]);
+
   if (error) {
     return (
       <div className="flex flex-col items-center justify-center h-screen bg-[#051021] text-white p-6 text-center">
@@ -99,12 +737,69 @@ const App: React.FC = () => {
     );
   }
 
-  // Refined Gradient: Deep Space -> Atmospheric Blue -> Horizon Glow
-  const bgStyle = "bg-[linear-gradient(to_bottom,#0B1026_0%,#2B32B2_60%,#FFD4B2_100%)]";
+  const traceInputElement = (
+    <input
+      ref={traceInputRef}
+      type="file"
+      accept="application/json,.json"
+      className="hidden"
+      onChange={e => {
+        const file = e.target.files?.[0];
+        if (file) loadTrace(file);
+        e.target.value = '';
+      }}
+    />
+  );
+
+  // Instruction hints follow whichever inputs are actually running
+  const hintText = (keys: (MessageKey | undefined)[], fallback: MessageKey) =>
+    keys.filter((k): k is MessageKey => !!k).map(k => t(k)).join(' / ') || t(fallback);
+  const swayHint = hintText(activeInputs.map(s => s.swayHint), 'hint.sway');
+  const blowHint = hintText(activeInputs.map(s => s.blowHint), 'hint.blow');
+  const hasMicrophone = activeInputs.some(s => s.id === 'microphone');
+
+  // Sky follows the main flower's theme
+  const skyStyle = { background: skyGradient(mainTheme) };
+
+  const programName = (id: string) => t(`program.${id}.name` as MessageKey);
+
+  // A sentence with one emphasized word, e.g. "Use your *breath* to release."
+  const highlight = (sentence: MessageKey, word: MessageKey) => {
+    const [before, after] = t(sentence).split('{word}');
+    return <>{before}<span className="text-cyan-200 font-medium">{t(word)}</span>{after}</>;
+  };
+
+  const nextLocale = LOCALES[(LOCALES.findIndex(l => l.id === locale) + 1) % LOCALES.length];
+  const languageButton = (
+    <button
+      onClick={() => setLocale(nextLocale.id)}
+      title={t('settings.language')}
+      className="flex items-center gap-1.5 px-2.5 py-2 rounded-full bg-white/5 backdrop-blur-md border border-white/10 text-white/50 hover:text-white hover:bg-white/10 transition-all text-[11px]"
+    >
+      <Languages size={16} />
+      {nextLocale.label}
+    </button>
+  );
+
+  const calibrationWizard = (
+    <CalibrationWizard
+      audioService={audioService.current}
+      onComplete={handleCalibrationComplete}
+      onSkip={finishCalibration}
+    />
+  );
+
+  if (!hasStarted && calibrating) {
+    return (
+      <div className={`relative flex flex-col items-center justify-center h-screen w-screen p-6 overflow-hidden`} style={skyStyle}>
+        {calibrationWizard}
+      </div>
+    );
+  }
 
   if (!hasStarted) {
     return (
-      <div className={`relative flex flex-col items-center justify-center h-screen w-screen ${bgStyle} text-white overflow-hidden`}>
+      <div className={`relative flex flex-col items-center justify-center h-screen w-screen text-white overflow-hidden`} style={skyStyle}>
         {/* Background decorative elements */}
         <div className="absolute top-0 left-0 w-full h-full overflow-hidden opacity-30 pointer-events-none">
              {/* Stars or subtle glow */}
@@ -113,55 +808,119 @@ const App: React.FC = () => {
              <div className="absolute bottom-0 right-0 w-full h-1/3 bg-orange-100/10 blur-[100px]"></div>
         </div>
 
+        <div className="absolute top-6 right-6 z-20">{languageButton}</div>
+
         <div className="z-10 flex flex-col items-center max-w-md p-8 bg-white/10 backdrop-blur-lg rounded-3xl border border-white/20 shadow-2xl">
           <div className="mb-6 p-4 bg-white/20 rounded-full animate-pulse shadow-[0_0_20px_rgba(255,255,255,0.3)]">
              <div className="w-16 h-16 rounded-full bg-gradient-to-tr from-white to-blue-200 blur-sm"></div>
           </div>
           
-          <h1 className="text-4xl font-light mb-2 tracking-wide font-serif text-white drop-shadow-md">Breathing Dandelion</h1>
+          <h1 className="text-4xl font-light mb-2 tracking-wide font-serif text-white drop-shadow-md">{t('app.title')}</h1>
           <p className="text-slate-100 mb-8 text-center text-sm font-light leading-relaxed drop-shadow-sm">
-            An interactive relaxation experience. <br/>
-            Use your <span className="text-cyan-200 font-medium">breath</span> to release. <br/>
-            Use your <span className="text-cyan-200 font-medium">head</span> to sway.
+            {t('app.intro')} <br/>
+            {highlight('app.introBreath', 'app.introBreathWord')} <br/>
+            {highlight('app.introHead', 'app.introHeadWord')}
           </p>
 
-          <div className="flex gap-4 mb-8 text-xs text-slate-200">
-             <div className="flex flex-col items-center gap-2">
-                <Camera size={20} />
-                <span>Head Tracking</span>
-             </div>
-             <div className="w-px bg-white/30 h-10"></div>
-             <div className="flex flex-col items-center gap-2">
-                <Mic size={20} />
-                <span>Microphone</span>
-             </div>
+          <div className="flex flex-col items-center gap-2 mb-6 w-full">
+            <span className="text-[10px] text-white/50 font-bold tracking-[0.2em] uppercase">{t('landing.guide')}</span>
+            <div className="flex flex-wrap justify-center gap-2">
+              {[{ id: null, name: t('landing.free') }, ...BREATHING_PROGRAMS.map(p => ({ id: p.id, name: programName(p.id) }))].map(p => (
+                <button
+                  key={p.id ?? 'free'}
+                  onClick={() => setProgramId(p.id)}
+                  className={`px-3 py-1 rounded-full text-xs border transition-all ${programId === p.id ? 'bg-white/90 text-slate-900 border-white' : 'bg-white/5 text-white/70 border-white/20 hover:bg-white/15'}`}
+                >
+                  {p.name}
+                </button>
+              ))}
+            </div>
+            <span className="text-[11px] text-white/50 h-4">
+              {activeProgram ? t(`program.${activeProgram.id}.description` as MessageKey) : t('landing.freeDescription')}
+            </span>
+          </div>
+
+          <div className="flex flex-col items-center gap-2 mb-6 w-full">
+            <span className="text-[10px] text-white/50 font-bold tracking-[0.2em] uppercase">{t('landing.duration')}</span>
+            <div className="flex flex-wrap justify-center gap-2">
+              {[null, ...SESSION_DURATIONS].map(minutes => (
+                <button
+                  key={minutes ?? 'open'}
+                  onClick={() => setDurationMinutes(minutes)}
+                  className={`px-3 py-1 rounded-full text-xs border transition-all ${durationMinutes === minutes ? 'bg-white/90 text-slate-900 border-white' : 'bg-white/5 text-white/70 border-white/20 hover:bg-white/15'}`}
+                >
+                  {minutes === null ? t('landing.open') : t('landing.minutes', { count: minutes })}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap justify-center gap-2 mb-8 text-xs text-slate-200">
+             {INPUT_OPTIONS.map(({ id, label, icon: Icon }) => {
+               const enabled = enabledInputs.includes(id);
+               return (
+                 <button
+                   key={id}
+                   onClick={() => toggleInput(id)}
+                   aria-pressed={enabled}
+                   className={`flex flex-col items-center gap-2 w-20 py-2 rounded-xl border transition-all ${enabled ? 'bg-white/15 border-white/40 text-white' : 'border-transparent text-white/40 hover:text-white/70'}`}
+                 >
+                    <Icon size={20} />
+                    <span>{t(label)}</span>
+                 </button>
+               );
+             })}
           </div>
 
           <button 
             onClick={startExperience}
-            className="group relative px-8 py-3 bg-white/90 text-slate-900 rounded-full font-medium hover:bg-white transition-all active:scale-95 flex items-center gap-2 shadow-lg"
+            disabled={enabledInputs.length === 0}
+            className="group relative px-8 py-3 bg-white/90 text-slate-900 rounded-full font-medium hover:bg-white transition-all active:scale-95 flex items-center gap-2 shadow-lg disabled:opacity-40 disabled:pointer-events-none"
           >
-            <span>Start Experience</span>
+            <span>{t('landing.start')}</span>
             <Play size={16} className="group-hover:translate-x-1 transition-transform" />
           </button>
+
+          <button
+            onClick={() => traceInputRef.current?.click()}
+            className="mt-4 text-[11px] text-white/40 hover:text-white/70 transition-colors"
+          >
+            {t('landing.replay')}
+          </button>
+          {traceInputElement}
         </div>
       </div>
     );
   }
 
   return (
-    <div className={`relative w-full h-screen ${bgStyle} overflow-hidden font-sans`}>
+    <div className="relative w-full h-screen overflow-hidden font-sans" style={skyStyle}>
+      <MeadowCanvas plants={meadow} themes={themesById} canvasRef={meadowCanvasRef} />
+
       {/* 3D Canvas Layer */}
       <DandelionCanvas 
-        swayValue={swayValue} 
-        blowStrength={blowStrength} 
-        colorTheme={selectedColor}
+        sensors={sensorStore.current}
+        flowers={sceneFlowers}
+        themes={themesById}
         onStateChange={handleStateChange}
-        onBlowSuccess={() => setFreeCount(c => c + 1)}
-        onHappySway={() => setHappyCount(c => c + 1)}
+        onBlowSuccess={handleBlowSuccess}
+        onHappySway={handleHappySway}
+        onSeedLanded={handleSeedLanded}
         onFlowerClick={cycleColor}
+        onFlowerLongPress={openThemeEditor}
+        flowerLabel={flowerLabel}
+        reducedMotion={reducedMotion}
+        blowThreshold={blowThreshold}
+        qualityOverride={qualityMode}
+        onQualityChange={setQualityTier}
+        onRendererReady={setRendererBackend}
+        releaseEnabled={!calibrating}
+        onFrame={(canvas, time) => captureService.current.frame(canvas, time)}
+        onStep={(frameDt, frame) => recorderRef.current.recordFrame(frameDt, frame)}
       />
 
+      {sessionPhase === 'running' && <SessionProgress timer={sessionTimer.current} />}
+
       {/* Foreground UI Overlay */}
       <div className="absolute inset-0 pointer-events-none flex flex-col justify-between p-6 z-10">
         
@@ -170,25 +929,22 @@ const App: React.FC = () => {
            {/* Left: App Title */}
            <div className="flex flex-col gap-3">
              <h1 className="text-3xl md:text-5xl font-bold text-[#F3E1E4] tracking-tight drop-shadow-2xl">
-               Breathing Dandelion
+               {t('app.title')}
              </h1>
-             <div className="text-sm md:text-base text-white/50 font-medium leading-relaxed space-y-1">
-               <p>允许自己，像蒲公英的种子一样，</p>
-               <p>轻柔地降落到想去的地方。</p>
-             </div>
+             <CalmingPhrase />
            </div>
 
            {/* Right: Stats Card */}
            <div className="bg-white/5 backdrop-blur-lg rounded-2xl p-5 border border-white/10 shadow-[0_8px_32px_0_rgba(31,38,135,0.15)] min-w-[130px] flex flex-col items-center transform transition-transform hover:scale-105">
              <div className="text-[10px] text-white/40 font-bold tracking-[0.2em] mb-3 uppercase">
-               Today
+               {t('stats.today')}
              </div>
              <div className="w-8 h-px bg-white/10 mb-3"></div>
              <div className="text-4xl font-bold text-[#F3E1E4] font-sans mb-1 tabular-nums">
-               {freeCount}
+               {todayReleases}
              </div>
              <div className="text-xs text-white/50 font-medium tracking-wide flex items-center gap-1.5">
-               Released 
+               {t('stats.released')}
                {/* Dandelion Seed Icon */}
                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" className="opacity-80">
                  <path d="M12 22V10" />
@@ -199,6 +955,29 @@ const App: React.FC = () => {
                  <path d="M12 10L14.5 4" />
                </svg>
              </div>
+             <div className="w-8 h-px bg-white/10 my-3"></div>
+             <div className="text-xl font-bold text-[#F3E1E4]/80 font-sans tabular-nums">
+               {todayHappySways}
+             </div>
+             <div className="text-[11px] text-white/40 font-medium tracking-wide">
+               {t('stats.happySways')}
+             </div>
+             <div className="mt-3 flex items-center gap-3">
+               <button
+                 onClick={() => setShowHistory(true)}
+                 className="flex items-center gap-1 text-[10px] text-white/40 hover:text-white/80 tracking-[0.15em] uppercase transition-colors"
+               >
+                 <History size={12} />
+                 {t('stats.history')}
+               </button>
+               <button
+                 onClick={() => setShowAchievements(true)}
+                 className="flex items-center gap-1 text-[10px] text-white/40 hover:text-white/80 tracking-[0.15em] uppercase transition-colors"
+               >
+                 <Trophy size={12} />
+                 {t('stats.achievements')}
+               </button>
+             </div>
            </div>
         </div>
 
@@ -207,27 +986,209 @@ const App: React.FC = () => {
         </div>
 
         {/* Bottom Instructions */}
-        <div className="flex justify-center pb-10">
-           <div className="bg-white/5 backdrop-blur-md rounded-full px-8 py-3 border border-white/10 flex gap-8 text-sm text-white/70 shadow-lg tracking-wide">
-              <span className={`transition-all duration-300 ${currentAction === 'SWAYING' ? 'text-white font-bold drop-shadow-[0_0_10px_rgba(255,255,255,0.5)]' : ''}`}>
-                 ↔ Sway Head
-              </span>
-              <span className="w-px bg-white/10"></span>
-              <span className={`transition-all duration-300 ${currentAction === 'BLOWING' ? 'text-white font-bold drop-shadow-[0_0_10px_rgba(255,255,255,0.5)]' : ''}`}>
-                 💨 Blow Mic
-              </span>
-           </div>
+        <div className="flex flex-col items-center gap-6 pb-10">
+           {inputNotice && (
+             <button
+               onClick={() => setInputNotice(null)}
+               className="pointer-events-auto text-xs text-white/60 bg-white/5 backdrop-blur-md rounded-full px-4 py-1.5 border border-white/10"
+             >
+               {inputNotice}
+             </button>
+           )}
+           {clip && (
+             <div className="pointer-events-auto flex items-center gap-3 text-xs text-white/70 bg-white/5 backdrop-blur-md rounded-full pl-4 pr-2 py-1.5 border border-white/10">
+               {t('capture.clipReady')}
+               <button
+                 onClick={() => { downloadCapture(clip, 'webm'); setClip(null); }}
+                 className="flex items-center gap-1 px-2.5 py-1 rounded-full bg-white/15 text-white hover:bg-white/25 transition-colors"
+               >
+                 <Download size={12} />
+                 {t('capture.download')}
+               </button>
+               <button onClick={() => setClip(null)} aria-label={t('close')} className="text-white/40 hover:text-white transition-colors">
+                 <X size={14} />
+               </button>
+             </div>
+           )}
+           {activeProgram && (
+             <BreathingGuide programName={programName(activeProgram.id)} sensors={sensorStore.current} />
+           )}
+           <ActionHints sensors={sensorStore.current} swayHint={swayHint} blowHint={blowHint} />
+           {hasMicrophone && <BreathRate sensors={sensorStore.current} trend={respirationTrend} />}
         </div>
       </div>
       
-      {/* Debug/Feedback Visualization (Subtle) */}
-      <div className="absolute bottom-0 left-0 w-full h-1 bg-white/5 pointer-events-none">
-        <div 
-          className="h-full bg-gradient-to-r from-blue-300 to-white transition-all duration-75 ease-out opacity-40 shadow-[0_0_15px_white]"
-          style={{ width: `${Math.min(blowStrength * 100, 100)}%` }}
-        />
+      <SensorIndicators status={sensorStatus} onOpen={() => setShowDevices(true)} />
+
+      {/* Settings */}
+      <div className="absolute bottom-6 right-6 z-20 flex flex-col items-end gap-2">
+        {languageButton}
+        <button
+          onClick={() => updateA11y({ reducedMotion: !reducedMotion })}
+          title={t('settings.reducedMotion')}
+          aria-pressed={reducedMotion}
+          className={`p-2.5 rounded-full bg-white/5 backdrop-blur-md border border-white/10 hover:bg-white/10 transition-all ${reducedMotion ? 'text-cyan-200' : 'text-white/50 hover:text-white'}`}
+        >
+          <Sparkles size={16} />
+        </button>
+        <button
+          onClick={() => updateA11y({ highContrast: !a11y.highContrast })}
+          title={t('settings.highContrast')}
+          aria-pressed={a11y.highContrast}
+          className={`p-2.5 rounded-full bg-white/5 backdrop-blur-md border border-white/10 hover:bg-white/10 transition-all ${a11y.highContrast ? 'text-cyan-200' : 'text-white/50 hover:text-white'}`}
+        >
+          <Contrast size={16} />
+        </button>
+        <div className="group flex items-center gap-2">
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={soundSettings.muted ? 0 : soundSettings.volume}
+            onChange={e => setVolume(Number(e.target.value))}
+            aria-label={t('settings.volume')}
+            className="w-20 accent-white/70 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+          />
+          <button
+            onClick={toggleMute}
+            title={soundSettings.muted ? t('settings.unmute') : t('settings.mute')}
+            className="p-2.5 rounded-full bg-white/5 backdrop-blur-md border border-white/10 text-white/50 hover:text-white hover:bg-white/10 transition-all"
+          >
+            {soundSettings.muted ? <VolumeX size={16} /> : <Volume2 size={16} />}
+          </button>
+        </div>
+        <button
+          onClick={cycleQuality}
+          title={t('settings.quality', { backend: rendererBackend === 'webgl' ? 'WebGL' : 'Canvas 2D' })}
+          className="flex items-center gap-1.5 px-2.5 py-2 rounded-full bg-white/5 backdrop-blur-md border border-white/10 text-white/50 hover:text-white hover:bg-white/10 transition-all text-[10px] tracking-[0.15em] uppercase"
+        >
+          <Gauge size={16} />
+          {qualityMode === 'auto' ? t('settings.qualityAuto', { tier: qualityTier }) : qualityTier}
+        </button>
+        <button
+          onClick={toggleRecording}
+          title={isRecording ? t('settings.stopRecording') : t('settings.record')}
+          className={`p-2.5 rounded-full bg-white/5 backdrop-blur-md border border-white/10 hover:bg-white/10 transition-all ${isRecording ? 'text-red-300 animate-pulse' : 'text-white/50 hover:text-white'}`}
+        >
+          {isRecording ? <Square size={16} /> : <Circle size={16} />}
+        </button>
+        <button
+          onClick={replaying ? stopReplay : () => traceInputRef.current?.click()}
+          title={replaying ? t('settings.stopReplay') : t('settings.replay')}
+          className={`p-2.5 rounded-full bg-white/5 backdrop-blur-md border border-white/10 hover:bg-white/10 transition-all ${replaying ? 'text-cyan-200' : 'text-white/50 hover:text-white'}`}
+        >
+          {replaying ? <Square size={16} /> : <Upload size={16} />}
+        </button>
+        {traceInputElement}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={toggleCaptureOverlay}
+            title={t('settings.captureOverlay')}
+            aria-pressed={captureSettings.overlay}
+            className={`p-2.5 rounded-full bg-white/5 backdrop-blur-md border border-white/10 hover:bg-white/10 transition-all ${captureSettings.overlay ? 'text-cyan-200' : 'text-white/50 hover:text-white'}`}
+          >
+            <CalendarDays size={16} />
+          </button>
+          {CaptureService.clipsSupported() && (
+            <button
+              onClick={toggleClips}
+              title={keepingClips ? t('settings.stopClips') : t('settings.clips')}
+              aria-pressed={keepingClips}
+              className={`p-2.5 rounded-full bg-white/5 backdrop-blur-md border border-white/10 hover:bg-white/10 transition-all ${keepingClips ? 'text-red-300' : 'text-white/50 hover:text-white'}`}
+            >
+              <Clapperboard size={16} />
+            </button>
+          )}
+          <button
+            onClick={takeSnapshot}
+            title={t('settings.snapshot')}
+            className="p-2.5 rounded-full bg-white/5 backdrop-blur-md border border-white/10 text-white/50 hover:text-white hover:bg-white/10 transition-all"
+          >
+            <ImageDown size={16} />
+          </button>
+        </div>
+        <button
+          onClick={() => openThemeEditor(flowers[0].id)}
+          title={t('settings.themes')}
+          className="p-2.5 rounded-full bg-white/5 backdrop-blur-md border border-white/10 text-white/50 hover:text-white hover:bg-white/10 transition-all"
+        >
+          <Palette size={16} />
+        </button>
+        {hasMicrophone && (
+          <button
+            onClick={() => setCalibrating(true)}
+            title={t('settings.recalibrate')}
+            className="p-2.5 rounded-full bg-white/5 backdrop-blur-md border border-white/10 text-white/50 hover:text-white hover:bg-white/10 transition-all"
+          >
+            <SlidersHorizontal size={16} />
+          </button>
+        )}
+      </div>
+
+      {/* End of a timed session: the scene dims, then the summary */}
+      <div
+        className={`absolute inset-0 z-30 flex items-center justify-center p-6 bg-[#051021]/60 transition-opacity duration-[4000ms] ${sessionPhase === 'running' ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}
+      >
+        {sessionPhase === 'summary' && summary && (
+          <SessionSummary
+            session={summary}
+            onAgain={() => beginSession()}
+            onContinue={() => beginSession(null)}
+          />
+        )}
       </div>
 
+      {calibrating && (
+        <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/30 backdrop-blur-sm p-6">
+          {calibrationWizard}
+        </div>
+      )}
+
+      {showHistory && <HistoryPanel sessions={sessions} onClose={() => setShowHistory(false)} />}
+      {showDevices && (
+        <DevicePicker
+          choice={deviceChoice}
+          status={sensorStatus}
+          onSelect={selectDevice}
+          onClose={() => setShowDevices(false)}
+        />
+      )}
+
+      {showAchievements && (
+        <AchievementGallery
+          achievements={achievementStatus(sessions, sessionRecord(), achievementService.current.load())}
+          onClose={() => setShowAchievements(false)}
+        />
+      )}
+
+      {shownAchievement && (
+        <AchievementToast
+          key={shownAchievement}
+          id={shownAchievement}
+          onDone={() => setAchievementToasts(queue => queue.slice(1))}
+        />
+      )}
+
+      {showThemeEditor && (
+        <ThemeEditor
+          key={editingFlowerId}
+          themes={themes}
+          activeId={flowers.find(f => f.id === editingFlowerId)?.theme ?? flowers[0].theme}
+          onPreview={setPreviewTheme}
+          onSave={handleThemeSave}
+          onUse={id => setFlowerTheme(editingFlowerId, id)}
+          onDelete={handleThemeDelete}
+          onImport={imported => setUserThemes(themeService.current.importThemes(imported))}
+          onClose={closeThemeEditor}
+        />
+      )}
+
+      <LiveAnnouncer announcement={announcement} />
+
+      {/* Debug/Feedback Visualization (Subtle) */}
+      <BlowMeter sensors={sensorStore.current} />
+
     </div>
   );
 };
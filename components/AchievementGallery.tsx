@@ -0,0 +1,77 @@
+import React from 'react';
+import { X, Sprout, Smile, Leaf, Hourglass, Flame, CalendarCheck, Palette, Wind, Lock } from 'lucide-react';
+import { AchievementId } from '../types';
+import { AchievementStatus } from '../services/achievementService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+export const ACHIEVEMENT_ICONS: Record<AchievementId, React.ElementType> = {
+  firstRelease: Sprout,
+  happySways10: Smile,
+  calmFive: Leaf,
+  timedSession: Hourglass,
+  streak3: Flame,
+  streak7: CalendarCheck,
+  everyTheme: Palette,
+  releases100: Wind
+};
+
+export const achievementTitle = (id: AchievementId) => `achievement.${id}.title` as MessageKey;
+export const achievementDescription = (id: AchievementId) => `achievement.${id}.description` as MessageKey;
+
+interface AchievementGalleryProps {
+  achievements: AchievementStatus[];
+  onClose: () => void;
+}
+
+export const AchievementGallery: React.FC<AchievementGalleryProps> = ({ achievements, onClose }) => {
+  const { t, locale } = useI18n();
+  const unlockedCount = achievements.filter(a => a.unlockedAt !== null).length;
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/30 backdrop-blur-sm p-6" onClick={onClose}>
+      <div
+        className="relative w-full max-w-md p-6 bg-white/10 backdrop-blur-lg rounded-3xl border border-white/20 shadow-2xl text-white"
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} aria-label={t('close')} className="absolute top-4 right-4 text-white/50 hover:text-white transition-colors">
+          <X size={18} />
+        </button>
+
+        <h2 className="text-xl font-light font-serif mb-1">{t('achievements.title')}</h2>
+        <p className="text-[11px] text-white/40 mb-5">{t('achievements.count', { count: unlockedCount, total: achievements.length })}</p>
+
+        <ul className="grid grid-cols-2 gap-3">
+          {achievements.map(a => {
+            const unlocked = a.unlockedAt !== null;
+            const Icon = unlocked ? ACHIEVEMENT_ICONS[a.id] : Lock;
+            return (
+              <li
+                key={a.id}
+                className={`flex flex-col gap-1.5 p-3 rounded-2xl border ${unlocked ? 'bg-white/10 border-white/20' : 'bg-white/5 border-white/5 text-white/50'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <Icon size={16} className={unlocked ? 'text-amber-100' : 'text-white/30'} />
+                  <span className="text-sm font-medium">{t(achievementTitle(a.id))}</span>
+                </div>
+                <span className="text-[11px] text-white/50 leading-snug">{t(achievementDescription(a.id))}</span>
+                {unlocked ? (
+                  <span className="text-[10px] text-white/40 tabular-nums">
+                    {new Date(a.unlockedAt!).toLocaleDateString(locale, { month: 'short', day: 'numeric' })}
+                  </span>
+                ) : a.target > 1 && (
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 h-1 rounded-full bg-white/10 overflow-hidden">
+                      <div className="h-full bg-white/40" style={{ width: `${(a.current / a.target) * 100}%` }} />
+                    </div>
+                    <span className="text-[10px] text-white/40 tabular-nums">{a.current}/{a.target}</span>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React, { useEffect, useState } from 'react';
+import { AchievementId } from '../types';
+import { ACHIEVEMENT_ICONS, achievementTitle } from './AchievementGallery';
+import { useI18n } from '../hooks/useI18n';
+
+const SHOW_MS = 4500;
+const FADE_MS = 500;
+
+// Quietly slides in under the title for a few seconds, one achievement at a time
+export const AchievementToast: React.FC<{ id: AchievementId; onDone: () => void }> = ({ id, onDone }) => {
+  const { t } = useI18n();
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    const show = window.setTimeout(() => setVisible(true), 50);
+    const hide = window.setTimeout(() => setVisible(false), SHOW_MS);
+    const done = window.setTimeout(onDone, SHOW_MS + FADE_MS);
+    return () => {
+      window.clearTimeout(show);
+      window.clearTimeout(hide);
+      window.clearTimeout(done);
+    };
+  }, [id]);
+
+  const Icon = ACHIEVEMENT_ICONS[id];
+  return (
+    <div
+      className={`absolute top-8 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 pl-3 pr-5 py-2 rounded-full bg-white/10 backdrop-blur-md border border-white/15 text-white shadow-lg pointer-events-none transition-all duration-500 ${visible ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-2'}`}
+    >
+      <div className="p-1.5 rounded-full bg-amber-100/15">
+        <Icon size={14} className="text-amber-100" />
+      </div>
+      <div className="flex flex-col">
+        <span className="text-[9px] text-white/50 tracking-[0.2em] uppercase">{t('achievements.unlocked')}</span>
+        <span className="text-sm font-light">{t(achievementTitle(id))}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import { SensorStore } from '../services/sensorStore';
+import { useSensor } from '../hooks/useSensor';
+
+interface ActionHintsProps {
+  sensors: SensorStore;
+  swayHint: string;
+  blowHint: string;
+}
+
+const HIGHLIGHT = 'text-white font-bold drop-shadow-[0_0_10px_rgba(255,255,255,0.5)]';
+
+// Sway and blow hints, lighting up whichever one the user is doing
+export const ActionHints: React.FC<ActionHintsProps> = ({ sensors, swayHint, blowHint }) => {
+  const action = useSensor(sensors, f => f.action);
+
+  return (
+    <div className="bg-white/5 backdrop-blur-md rounded-full px-8 py-3 border border-white/10 flex gap-8 text-sm text-white/70 shadow-lg tracking-wide">
+      <span className={`transition-all duration-300 ${action === 'SWAYING' ? HIGHLIGHT : ''}`}>
+        {swayHint}
+      </span>
+      <span className="w-px bg-white/10"></span>
+      <span className={`transition-all duration-300 ${action === 'BLOWING' ? HIGHLIGHT : ''}`}>
+        {blowHint}
+      </span>
+    </div>
+  );
+};
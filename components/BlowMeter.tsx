@@ -0,0 +1,21 @@
+import React from 'react';
+import { SensorStore } from '../services/sensorStore';
+import { useSensor } from '../hooks/useSensor';
+
+interface BlowMeterProps {
+  sensors: SensorStore;
+}
+
+// Thin bar along the bottom edge showing the current blow strength
+export const BlowMeter: React.FC<BlowMeterProps> = ({ sensors }) => {
+  const blow = useSensor(sensors, f => Math.round(Math.min(f.blow, 1) * 100));
+
+  return (
+    <div className="absolute bottom-0 left-0 w-full h-1 bg-white/5 pointer-events-none">
+      <div
+        className="h-full bg-gradient-to-r from-blue-300 to-white transition-all duration-100 ease-out opacity-40 shadow-[0_0_15px_white]"
+        style={{ width: `${blow}%` }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { RespirationSample } from '../types';
+import { SensorStore } from '../services/sensorStore';
+import { useSensor } from '../hooks/useSensor';
+import { useI18n } from '../hooks/useI18n';
+
+interface BreathRateProps {
+  sensors: SensorStore;
+  trend: RespirationSample[]; // this session so far
+}
+
+// Resonant breathing: about six breaths a minute
+export const RESONANT_BPM = 6;
+const BAND = 1;        // +/- breaths per minute that still count as on target
+const SCALE_MAX = 20;  // Right end of the gauge
+
+const toPercent = (bpm: number) => `${(Math.min(bpm, SCALE_MAX) / SCALE_MAX) * 100}%`;
+
+// Tiny line of breathing rate over the session, lower is calmer
+export const Sparkline: React.FC<{ values: number[]; width?: number; height?: number }> = ({ values, width = 80, height = 20 }) => {
+  if (values.length < 2) return null;
+  const max = Math.max(...values, RESONANT_BPM + BAND);
+  const min = Math.min(...values, RESONANT_BPM - BAND);
+  const span = Math.max(1, max - min);
+  const points = values
+    .map((v, i) => `${(i / (values.length - 1)) * width},${height - ((v - min) / span) * height}`)
+    .join(' ');
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinecap="round" strokeLinejoin="round" />
+    </svg>
+  );
+};
+
+// Gentle breathing-rate readout with the resonant band marked on a gauge
+export const BreathRate: React.FC<BreathRateProps> = ({ sensors, trend }) => {
+  const { t } = useI18n();
+  const stats = useSensor(sensors, f => f.respiration, 500);
+
+  if (!stats) {
+    return <div className="text-[11px] text-white/30 tracking-wide">{t('breath.listening')}</div>;
+  }
+
+  const offset = stats.bpm - RESONANT_BPM;
+  const onTarget = Math.abs(offset) <= BAND;
+  const message = t(onTarget ? 'breath.onTarget' : offset > 0 ? 'breath.tooFast' : 'breath.tooSlow');
+
+  return (
+    <div className="w-64 flex flex-col items-center gap-2 text-white/70">
+      <div className="flex items-baseline gap-2">
+        <span className={`text-2xl font-light tabular-nums transition-colors duration-1000 ${onTarget ? 'text-emerald-100' : 'text-white/80'}`}>
+          {stats.bpm.toFixed(1)}
+        </span>
+        <span className="text-[11px] text-white/40 tracking-wide">{t('breath.unit')}</span>
+      </div>
+
+      {/* Gauge: the band is the target, the dot is now */}
+      <div className="relative w-full h-1.5 rounded-full bg-white/10">
+        <div
+          className="absolute h-full rounded-full bg-emerald-200/30"
+          style={{ left: toPercent(RESONANT_BPM - BAND), width: `${((2 * BAND) / SCALE_MAX) * 100}%` }}
+        />
+        <div
+          className="absolute top-1/2 w-2.5 h-2.5 -mt-[5px] -ml-[5px] rounded-full bg-white shadow-[0_0_8px_white] transition-[left] duration-1000 ease-out"
+          style={{ left: toPercent(stats.bpm) }}
+        />
+      </div>
+
+      <div className="flex items-center gap-3 text-[11px] text-white/40 tabular-nums">
+        <span>{t('breath.exhale', { seconds: stats.exhaleSeconds.toFixed(1) })}</span>
+        <span>{t('breath.ratio', { ratio: stats.ratio > 0 ? (1 / stats.ratio).toFixed(1) : '–' })}</span>
+        <span className="text-white/50"><Sparkline values={trend.map(s => s.bpm)} width={48} height={12} /></span>
+      </div>
+      <div className="text-[11px] text-white/50 italic">{message}</div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { BreathPhase } from '../types';
+import { MessageKey } from '../services/i18n';
+import { SensorStore } from '../services/sensorStore';
+import { useSensor } from '../hooks/useSensor';
+import { useI18n } from '../hooks/useI18n';
+
+interface BreathingGuideProps {
+  programName: string;
+  sensors: SensorStore;
+}
+
+// The ring animates with phase progress, so it updates more often than the other UI
+const GUIDE_UPDATE_INTERVAL = 1000 / 30;
+
+const PHASE_LABELS: Record<BreathPhase, MessageKey> = {
+  INHALE: 'guide.INHALE',
+  HOLD_IN: 'guide.HOLD_IN',
+  EXHALE: 'guide.EXHALE',
+  HOLD_OUT: 'guide.HOLD_OUT'
+};
+
+export const BreathingGuide: React.FC<BreathingGuideProps> = ({ programName, sensors }) => {
+  const { t } = useI18n();
+  const state = useSensor(sensors, f => f.guide, GUIDE_UPDATE_INTERVAL);
+  if (!state) return null;
+
+  // Ring grows while inhaling, stays full while holding in, shrinks while exhaling
+  let ringScale = 0.5;
+  if (state.phase === 'INHALE') ringScale = 0.5 + state.progress * 0.5;
+  else if (state.phase === 'HOLD_IN') ringScale = 1;
+  else if (state.phase === 'EXHALE') ringScale = 1 - state.progress * 0.5;
+
+  const isExhale = state.phase === 'EXHALE';
+
+  return (
+    <div className="flex flex-col items-center gap-3 pointer-events-none select-none">
+      <div className="relative w-24 h-24 flex items-center justify-center">
+        <div className="absolute inset-0 rounded-full border border-white/10" />
+        <div
+          className={`absolute inset-0 rounded-full border-2 transition-colors duration-500 ${isExhale ? 'border-cyan-200/70 shadow-[0_0_20px_rgba(165,243,252,0.4)]' : 'border-white/40'}`}
+          style={{ transform: `scale(${ringScale})` }}
+        />
+        <span className="text-2xl font-light text-white/80 tabular-nums">{state.secondsLeft}</span>
+      </div>
+      <div className="text-sm text-white/80 font-medium tracking-[0.2em] uppercase">
+        {t(PHASE_LABELS[state.phase])}
+      </div>
+      <div className="text-[10px] text-white/40 tracking-wide">
+        {t('guide.status', { program: programName, cycle: state.cycle + 1, score: state.score })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, Wind } from 'lucide-react';
+import { AudioService } from '../services/audioService';
+import { CalibrationSample, deriveProfile } from '../services/calibrationService';
+import { SensitivityProfile } from '../types';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface CalibrationWizardProps {
+  audioService: AudioService;
+  onComplete: (profile: SensitivityProfile) => void;
+  onSkip: () => void;
+}
+
+type Step = 'intro' | 'ambient' | 'soft' | 'strong' | 'done';
+
+const STEP_DURATION = 3000;
+
+const STEP_TEXT: Record<Exclude<Step, 'intro' | 'done'>, { title: MessageKey; hint: MessageKey }> = {
+  ambient: { title: 'calibration.ambient.title', hint: 'calibration.ambient.hint' },
+  soft: { title: 'calibration.soft.title', hint: 'calibration.soft.hint' },
+  strong: { title: 'calibration.strong.title', hint: 'calibration.strong.hint' }
+};
+
+export const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ audioService, onComplete, onSkip }) => {
+  const { t } = useI18n();
+  const [step, setStep] = useState<Step>('intro');
+  const [progress, setProgress] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [profile, setProfile] = useState<SensitivityProfile | null>(null);
+
+  const samplesRef = useRef<Record<'ambient' | 'soft' | 'strong', CalibrationSample[]>>({ ambient: [], soft: [], strong: [] });
+
+  useEffect(() => {
+    if (step === 'intro' || step === 'done') return;
+
+    const samples = samplesRef.current[step];
+    samples.length = 0;
+    const start = performance.now();
+    let frame: number;
+
+    const loop = () => {
+      // Confidence too, since releases weigh the level by it; read every frame to keep its envelope going
+      const raw = audioService.getRawLevel();
+      samples.push({ level: raw, confidence: audioService.getBlowConfidence() });
+      setLevel(Math.min(1, raw / 140));
+
+      const t = (performance.now() - start) / STEP_DURATION;
+      setProgress(Math.min(1, t));
+
+      if (t >= 1) {
+        if (step === 'ambient') setStep('soft');
+        else if (step === 'soft') setStep('strong');
+        else {
+          const { ambient, soft, strong } = samplesRef.current;
+          setProfile(deriveProfile(audioService.getDeviceId(), ambient, soft, strong));
+          setStep('done');
+        }
+        return;
+      }
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+
+    return () => cancelAnimationFrame(frame);
+  }, [step]);
+
+  return (
+    <div className="z-10 flex flex-col items-center w-full max-w-md p-8 bg-white/10 backdrop-blur-lg rounded-3xl border border-white/20 shadow-2xl text-white">
+      <div className="mb-4 p-3 bg-white/10 rounded-full">
+        {step === 'strong' ? <Wind size={24} /> : <Mic size={24} />}
+      </div>
+      <h2 className="text-2xl font-light font-serif mb-2">{t('calibration.title')}</h2>
+
+      {step === 'intro' && (
+        <>
+          <p className="text-sm text-slate-100/80 font-light text-center leading-relaxed mb-8">
+            {t('calibration.intro')}
+          </p>
+          <div className="flex gap-3">
+            <button onClick={onSkip} className="px-6 py-2 rounded-full text-sm text-white/70 hover:text-white transition-colors">
+              {t('calibration.skip')}
+            </button>
+            <button
+              onClick={() => setStep('ambient')}
+              className="px-8 py-2 bg-white/90 text-slate-900 rounded-full font-medium hover:bg-white transition-all active:scale-95 shadow-lg"
+            >
+              {t('calibration.begin')}
+            </button>
+          </div>
+        </>
+      )}
+
+      {step !== 'intro' && step !== 'done' && (
+        <>
+          <p className="text-lg text-cyan-100 mt-2">{t(STEP_TEXT[step].title)}</p>
+          <p className="text-xs text-white/50 mb-6">{t(STEP_TEXT[step].hint)}</p>
+          <div className="w-full h-2 rounded-full bg-white/10 overflow-hidden mb-3">
+            <div className="h-full bg-gradient-to-r from-blue-300 to-white transition-all duration-75" style={{ width: `${level * 100}%` }} />
+          </div>
+          <div className="w-full h-px bg-white/10">
+            <div className="h-px bg-white/60" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </>
+      )}
+
+      {step === 'done' && profile && (
+        <>
+          <p className="text-sm text-slate-100/80 font-light text-center mb-8 mt-2">
+            {t('calibration.done', { percent: Math.round(profile.threshold * 100) })}
+          </p>
+          <div className="flex gap-3">
+            <button onClick={() => setStep('ambient')} className="px-6 py-2 rounded-full text-sm text-white/70 hover:text-white transition-colors">
+              {t('calibration.redo')}
+            </button>
+            <button
+              onClick={() => onComplete(profile)}
+              className="px-8 py-2 bg-white/90 text-slate-900 rounded-full font-medium hover:bg-white transition-all active:scale-95 shadow-lg"
+            >
+              {t('calibration.continue')}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React, { useEffect, useState } from 'react';
+import { calmingPhrases } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+// Long enough to read slowly a couple of times
+const PHRASE_MS = 14000;
+const FADE_MS = 1200;
+
+// Rotating tagline under the title, in the current language
+export const CalmingPhrase: React.FC = () => {
+  const { locale } = useI18n();
+  const phrases = calmingPhrases(locale);
+  const [index, setIndex] = useState(0);
+  const [visible, setVisible] = useState(true);
+
+  useEffect(() => {
+    let fade: number;
+    const timer = window.setInterval(() => {
+      setVisible(false);
+      fade = window.setTimeout(() => {
+        setIndex(i => (i + 1) % phrases.length);
+        setVisible(true);
+      }, FADE_MS);
+    }, PHRASE_MS);
+    return () => {
+      window.clearInterval(timer);
+      window.clearTimeout(fade);
+    };
+  }, [phrases.length]);
+
+  const lines = phrases[index % phrases.length];
+
+  return (
+    <div
+      className="text-sm md:text-base text-white/50 font-medium leading-relaxed space-y-1 transition-opacity ease-in-out"
+      style={{ opacity: visible ? 1 : 0, transitionDuration: `${FADE_MS}ms` }}
+    >
+      {lines.map((line, i) => <p key={i}>{line}</p>)}
+    </div>
+  );
+};
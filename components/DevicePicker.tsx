@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { SensorStatus } from '../types';
+import { DeviceChoice, DeviceKind, DeviceOption, listDevices, watchDevices } from '../services/deviceService';
+import { SENSOR_LABELS } from './SensorIndicators';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+const KINDS: DeviceKind[] = ['microphone', 'camera'];
+
+interface DevicePickerProps {
+  choice: DeviceChoice;
+  status: Partial<Record<DeviceKind, SensorStatus>>;
+  onSelect: (kind: DeviceKind, deviceId: string | null) => void;
+  onClose: () => void;
+}
+
+export const DevicePicker: React.FC<DevicePickerProps> = ({ choice, status, onSelect, onClose }) => {
+  const { t } = useI18n();
+  const [devices, setDevices] = useState<Record<DeviceKind, DeviceOption[]>>({ microphone: [], camera: [] });
+
+  // Refreshes as things are plugged in and out while the picker is open
+  useEffect(() => {
+    const refresh = () => {
+      Promise.all(KINDS.map(listDevices))
+        .then(([microphone, camera]) => setDevices({ microphone, camera }))
+        .catch(error => console.error("Error listing devices:", error));
+    };
+    refresh();
+    return watchDevices(refresh);
+  }, []);
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/30 backdrop-blur-sm p-6" onClick={onClose}>
+      <div
+        className="relative w-full max-w-sm p-6 bg-white/10 backdrop-blur-lg rounded-3xl border border-white/20 shadow-2xl text-white"
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} aria-label={t('close')} className="absolute top-4 right-4 text-white/50 hover:text-white transition-colors">
+          <X size={18} />
+        </button>
+
+        <h2 className="text-xl font-light font-serif mb-5">{t('devices.title')}</h2>
+
+        <div className="flex flex-col gap-4 mb-5">
+          {KINDS.map(kind => {
+            const chosen = choice[kind];
+            // Keep an unplugged choice selectable, so picking it again isn't needed when it's back
+            const missing = chosen !== null && !devices[kind].some(d => d.id === chosen);
+            const s = status[kind];
+            return (
+              <label key={kind} className="flex flex-col gap-1.5">
+                <span className="flex items-center justify-between text-[10px] text-white/40 font-bold tracking-[0.2em] uppercase">
+                  {t(`devices.${kind}` as MessageKey)}
+                  {s && <span className="font-normal tracking-normal normal-case">{t(`sensor.${s}` as MessageKey)}</span>}
+                </span>
+                <select
+                  value={chosen ?? ''}
+                  onChange={e => onSelect(kind, e.target.value || null)}
+                  className="w-full px-3 py-2 rounded-xl bg-white/10 border border-white/10 text-sm text-white focus:outline-none focus:border-white/30"
+                >
+                  <option value="" className="text-slate-900">{t('devices.default')}</option>
+                  {devices[kind].map((d, i) => (
+                    <option key={d.id} value={d.id} className="text-slate-900">
+                      {d.label || t('devices.unnamed', { kind: t(SENSOR_LABELS[kind]), number: i + 1 })}
+                    </option>
+                  ))}
+                  {missing && <option value={chosen!} className="text-slate-900">{t('devices.missing')}</option>}
+                </select>
+                {s === 'denied' && <span className="text-[11px] text-red-200/80 leading-snug">{t('devices.denied')}</span>}
+              </label>
+            );
+          })}
+        </div>
+
+        <p className="text-[11px] text-white/40 leading-snug">{t('devices.hint')}</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React from 'react';
+import { X, Flame } from 'lucide-react';
+import { SessionRecord } from '../types';
+import { summarize, computeStreaks, dayKey } from '../services/historyService';
+import { Sparkline } from './BreathRate';
+import { Locale } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface HistoryPanelProps {
+  sessions: SessionRecord[];
+  onClose: () => void;
+}
+
+const formatDay = (key: string, locale: Locale) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(locale, { weekday: 'short' });
+};
+
+const formatWeek = (key: string) => {
+  const [, m, d] = key.split('-').map(Number);
+  return `${m}/${d}`;
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ sessions, onClose }) => {
+  const { t, locale } = useI18n();
+  const days = summarize(sessions, 'day', 7);
+  const weeks = summarize(sessions, 'week', 4);
+  const streaks = computeStreaks(sessions);
+  const maxReleases = Math.max(1, ...days.map(d => d.releases));
+  // Most recent sessions with a breathing log, newest first
+  const breathing = sessions.filter(s => s.respiration && s.respiration.length >= 2).slice(-3).reverse();
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/30 backdrop-blur-sm p-6" onClick={onClose}>
+      <div
+        className="relative w-full max-w-md p-6 bg-white/10 backdrop-blur-lg rounded-3xl border border-white/20 shadow-2xl text-white"
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} aria-label={t('close')} className="absolute top-4 right-4 text-white/50 hover:text-white transition-colors">
+          <X size={18} />
+        </button>
+
+        <h2 className="text-xl font-light font-serif mb-5">{t('history.title')}</h2>
+
+        {/* Streaks */}
+        <div className="flex gap-4 mb-6">
+          <div className="flex-1 bg-white/5 rounded-2xl p-4 border border-white/10">
+            <div className="text-[10px] text-white/40 font-bold tracking-[0.2em] uppercase mb-1">{t('history.streak')}</div>
+            <div className="text-2xl font-bold text-[#F3E1E4] tabular-nums flex items-center gap-2">
+              {streaks.current}
+              <Flame size={16} className="text-orange-200/80" />
+            </div>
+            <div className="text-[11px] text-white/40">{t('history.days', { count: streaks.current })}</div>
+          </div>
+          <div className="flex-1 bg-white/5 rounded-2xl p-4 border border-white/10">
+            <div className="text-[10px] text-white/40 font-bold tracking-[0.2em] uppercase mb-1">{t('history.best')}</div>
+            <div className="text-2xl font-bold text-[#F3E1E4] tabular-nums">{streaks.best}</div>
+            <div className="text-[11px] text-white/40">{t('history.days', { count: streaks.best })}</div>
+          </div>
+        </div>
+
+        {/* Last 7 days */}
+        <div className="text-[10px] text-white/40 font-bold tracking-[0.2em] uppercase mb-3">{t('history.thisWeek')}</div>
+        <div className="flex items-end justify-between gap-2 h-28 mb-6">
+          {days.map(d => (
+            <div key={d.key} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+              <span className="text-[10px] text-white/60 tabular-nums">{d.releases || ''}</span>
+              <div
+                className="w-full rounded-t-md bg-gradient-to-t from-blue-300/40 to-white/70"
+                style={{ height: `${(d.releases / maxReleases) * 70}%`, minHeight: d.sessions > 0 ? 3 : 0 }}
+                title={t('history.dayDetail', { releases: d.releases, happySways: d.happySways, minutes: Math.round(d.minutes) })}
+              />
+              <span className="text-[10px] text-white/40">{formatDay(d.key, locale)}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Last 4 weeks */}
+        <div className="text-[10px] text-white/40 font-bold tracking-[0.2em] uppercase mb-2">{t('history.weekly')}</div>
+        <table className="w-full text-xs text-white/70 tabular-nums">
+          <thead>
+            <tr className="text-white/40 text-left">
+              <th className="font-normal py-1">{t('history.weekOf')}</th>
+              <th className="font-normal text-right">{t('history.sessions')}</th>
+              <th className="font-normal text-right">{t('history.released')}</th>
+              <th className="font-normal text-right">{t('history.happy')}</th>
+              <th className="font-normal text-right">{t('history.minutes')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...weeks].reverse().map(w => (
+              <tr key={w.key} className="border-t border-white/5">
+                <td className="py-1">{formatWeek(w.key)}</td>
+                <td className="text-right">{w.sessions}</td>
+                <td className="text-right">{w.releases}</td>
+                <td className="text-right">{w.happySways}</td>
+                <td className="text-right">{Math.round(w.minutes)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {/* Breathing rate within recent sessions */}
+        {breathing.length > 0 && (
+          <>
+            <div className="text-[10px] text-white/40 font-bold tracking-[0.2em] uppercase mt-6 mb-2">{t('history.breathing')}</div>
+            {breathing.map(s => {
+              const samples = s.respiration!;
+              return (
+                <div key={s.id} className="flex items-center justify-between py-1 text-xs text-white/70 tabular-nums border-t border-white/5">
+                  <span className="text-white/40 w-12">{formatDay(dayKey(s.startTime), locale)}</span>
+                  <span className="text-blue-100/70"><Sparkline values={samples.map(r => r.bpm)} /></span>
+                  <span>{t('history.bpmChange', { from: samples[0].bpm.toFixed(1), to: samples[samples.length - 1].bpm.toFixed(1) })}</span>
+                </div>
+              );
+            })}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Locale, detectLocale, saveLocale, translate } from '../services/i18n';
+import { I18nContext, I18nValue } from '../hooks/useI18n';
+
+// Holds the chosen locale for everything below it and keeps <html lang> and the title in step
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = translate(locale, 'app.title');
+  }, [locale]);
+
+  const value = useMemo<I18nValue>(() => ({
+    locale,
+    setLocale: (next: Locale) => {
+      saveLocale(next);
+      setLocaleState(next);
+    },
+    t: (key, params) => translate(locale, key, params)
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
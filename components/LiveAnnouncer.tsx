@@ -0,0 +1,13 @@
+import React from 'react';
+
+export interface Announcement {
+  id: number; // a fresh id re-announces the same text
+  text: string;
+}
+
+// Screen-reader only. Each new message replaces the last and is read out politely.
+export const LiveAnnouncer: React.FC<{ announcement: Announcement | null }> = ({ announcement }) => (
+  <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+    {announcement && <span key={announcement.id}>{announcement.text}</span>}
+  </div>
+);
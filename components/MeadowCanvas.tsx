@@ -0,0 +1,111 @@
+import React, { useEffect, useRef } from 'react';
+import { DandelionTheme, MeadowPlant } from '../types';
+import { growthOf } from '../services/meadowService';
+import { ThemeColors, colorsOf, findTheme } from '../services/themes';
+
+interface MeadowCanvasProps {
+  plants: MeadowPlant[];
+  themes: Record<string, DandelionTheme>;
+  canvasRef?: React.RefObject<HTMLCanvasElement | null>; // for captures, which draw the meadow in
+}
+
+// Plants grow over hours, so an occasional redraw is plenty
+const REDRAW_MS = 10000;
+const LEAF_COLOR = '80, 140, 80';
+
+// Small deterministic variation per plant, so redraws don't reshuffle the meadow
+const variation = (id: string, salt: number) => {
+  let h = salt;
+  for (let i = 0; i < id.length; i++) h = Math.imul(h ^ id.charCodeAt(i), 2654435761);
+  return ((h >>> 0) % 1000) / 1000;
+};
+
+const drawPlant = (ctx: CanvasRenderingContext2D, plant: MeadowPlant, theme: ThemeColors, width: number, height: number, now: number) => {
+  const growth = growthOf(plant, now);
+  const s = plant.scale;
+  const x = plant.x * width;
+  const y = plant.y * height;
+  const lean = (variation(plant.id, 1) - 0.5) * 0.4;
+
+  // Rosette of leaves first, then the stem rises, then the head fills out
+  const leafGrowth = Math.min(1, growth / 0.3);
+  const leafCount = 3 + Math.floor(variation(plant.id, 2) * 3);
+  ctx.fillStyle = `rgba(${LEAF_COLOR}, 0.55)`;
+  for (let i = 0; i < leafCount; i++) {
+    const angle = -Math.PI / 2 + ((i + 0.5) / leafCount - 0.5) * 2.4;
+    const length = (6 + 10 * leafGrowth) * s;
+    ctx.beginPath();
+    ctx.ellipse(x + Math.cos(angle) * length * 0.5, y + Math.sin(angle) * length * 0.3, length * 0.5, 1.5 * s, angle * 0.3, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  if (growth < 0.2) return;
+
+  const stemGrowth = Math.min(1, (growth - 0.2) / 0.5);
+  const stemHeight = (20 + 40 * variation(plant.id, 3)) * s * stemGrowth;
+  const headX = x + Math.sin(lean) * stemHeight;
+  const headY = y - Math.cos(lean) * stemHeight;
+
+  ctx.strokeStyle = `rgba(${theme.stemMid}, 0.7)`;
+  ctx.lineWidth = Math.max(0.5, 1.5 * s);
+  ctx.beginPath();
+  ctx.moveTo(x, y);
+  ctx.quadraticCurveTo(x, y - stemHeight * 0.6, headX, headY);
+  ctx.stroke();
+
+  if (growth < 0.6) {
+    // Closed bud, tinted with the theme as it ripens
+    ctx.fillStyle = `rgba(${theme.core}, ${0.3 + growth})`;
+    ctx.beginPath();
+    ctx.ellipse(headX, headY, 2 * s, 3 * s, lean, 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+
+  // Seed head: a little puff in the theme it was released in
+  const radius = (4 + 8 * ((growth - 0.6) / 0.4)) * s;
+  const hairs = 18;
+  ctx.strokeStyle = `rgba(${theme.tip}, 0.55)`;
+  ctx.lineWidth = Math.max(0.4, 0.6 * s);
+  ctx.beginPath();
+  for (let i = 0; i < hairs; i++) {
+    const angle = (i / hairs) * Math.PI * 2 + variation(plant.id, 4);
+    ctx.moveTo(headX, headY);
+    ctx.lineTo(headX + Math.cos(angle) * radius, headY + Math.sin(angle) * radius);
+  }
+  ctx.stroke();
+
+  ctx.fillStyle = `rgba(${theme.mid}, 0.8)`;
+  ctx.beginPath();
+  ctx.arc(headX, headY, 1.5 * s, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+// Garden layer behind the main flower: every seed that took root, at its current stage
+export const MeadowCanvas: React.FC<MeadowCanvasProps> = ({ plants, themes, canvasRef: sharedRef }) => {
+  const ownRef = useRef<HTMLCanvasElement>(null);
+  const canvasRef = sharedRef ?? ownRef;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const draw = () => {
+      canvas.width = window.innerWidth;
+      canvas.height = window.innerHeight;
+      const now = Date.now();
+      // Farther plants (higher up the ground band) first
+      [...plants].sort((a, b) => a.y - b.y).forEach(p => drawPlant(ctx, p, colorsOf(findTheme(themes, p.theme)), canvas.width, canvas.height, now));
+    };
+
+    draw();
+    window.addEventListener('resize', draw);
+    const timer = window.setInterval(draw, REDRAW_MS);
+    return () => {
+      window.removeEventListener('resize', draw);
+      window.clearInterval(timer);
+    };
+  }, [plants, themes]);
+
+  return <canvas ref={canvasRef} className="absolute top-0 left-0 w-full h-full z-0 pointer-events-none" />;
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Mic, MicOff, Camera, CameraOff } from 'lucide-react';
+import { SensorStatus } from '../types';
+import { DeviceKind } from '../services/deviceService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+export const SENSOR_LABELS: Record<DeviceKind, MessageKey> = {
+  microphone: 'input.microphone',
+  camera: 'input.camera'
+};
+
+const ICONS: Record<DeviceKind, { on: React.ElementType; off: React.ElementType }> = {
+  microphone: { on: Mic, off: MicOff },
+  camera: { on: Camera, off: CameraOff }
+};
+
+const DOT: Record<SensorStatus, string> = {
+  starting: 'bg-amber-200/70 animate-pulse',
+  live: 'bg-emerald-300/80',
+  recovering: 'bg-amber-200/80 animate-pulse',
+  lost: 'bg-red-300/80',
+  denied: 'bg-red-300/80'
+};
+
+interface SensorIndicatorsProps {
+  status: Partial<Record<DeviceKind, SensorStatus>>;
+  onOpen: () => void;
+}
+
+// One small pill per sensor in use, with a dot for how it's doing. Opens the device picker.
+export const SensorIndicators: React.FC<SensorIndicatorsProps> = ({ status, onOpen }) => {
+  const { t } = useI18n();
+  const kinds = (Object.keys(status) as DeviceKind[]).filter(kind => status[kind]);
+  if (kinds.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-6 left-6 z-20 flex flex-col items-start gap-2">
+      {kinds.map(kind => {
+        const s = status[kind]!;
+        const Icon = s === 'lost' || s === 'denied' ? ICONS[kind].off : ICONS[kind].on;
+        const label = t('sensor.status', { sensor: t(SENSOR_LABELS[kind]), status: t(`sensor.${s}` as MessageKey) });
+        return (
+          <button
+            key={kind}
+            onClick={onOpen}
+            title={label}
+            aria-label={label}
+            className="flex items-center gap-2 px-2.5 py-2 rounded-full bg-white/5 backdrop-blur-md border border-white/10 text-white/50 hover:text-white hover:bg-white/10 transition-all text-[10px] tracking-[0.15em] uppercase"
+          >
+            <Icon size={16} />
+            <span className={`w-1.5 h-1.5 rounded-full ${DOT[s]}`} />
+            {s !== 'live' && <span>{t(`sensor.${s}` as MessageKey)}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from 'react';
+import { SessionTimer } from '../services/sessionTimer';
+import { useI18n } from '../hooks/useI18n';
+
+const formatClock = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Hairline across the top of the screen filling as the session goes, with the time left
+export const SessionProgress: React.FC<{ timer: SessionTimer }> = ({ timer }) => {
+  const { t } = useI18n();
+  const [now, setNow] = useState(() => performance.now());
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(performance.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const progress = timer.progress(now);
+  const remaining = timer.remaining(now);
+  if (progress === null || remaining === null) return null;
+
+  return (
+    <div className="absolute top-0 left-0 w-full z-20 pointer-events-none">
+      <div className="h-0.5 w-full bg-white/5">
+        <div className="h-full bg-white/30 transition-[width] duration-1000 ease-linear" style={{ width: `${progress * 100}%` }} />
+      </div>
+      <div className="mt-1.5 text-center text-[10px] text-white/40 tracking-[0.2em] tabular-nums">
+        {timer.isPaused() ? t('session.paused') : t('session.remaining', { time: formatClock(remaining) })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Sparkles } from 'lucide-react';
+import { SessionRecord } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface SessionSummaryProps {
+  session: SessionRecord;
+  onAgain: () => void;
+  onContinue: () => void;
+}
+
+// Shown once a timed session has faded out
+export const SessionSummary: React.FC<SessionSummaryProps> = ({ session, onAgain, onContinue }) => {
+  const { t } = useI18n();
+  const calm = session.calmSeconds ?? 0;
+  const active = session.activeSeconds ?? 0;
+  const calmShare = calm + active > 0 ? calm / (calm + active) : 0;
+  const minutes = Math.max(1, Math.round((calm + active) / 60));
+
+  const stats = [
+    { label: t('summary.released'), value: session.releases },
+    { label: t('summary.happySways'), value: session.happySways },
+    { label: t('summary.averageBlow'), value: `${Math.round(session.averageBlow * 100)}%` }
+  ];
+
+  return (
+    <div className="z-10 flex flex-col items-center w-full max-w-md p-8 bg-white/10 backdrop-blur-lg rounded-3xl border border-white/20 shadow-2xl text-white">
+      <div className="mb-4 p-3 bg-white/10 rounded-full">
+        <Sparkles size={24} />
+      </div>
+      <h2 className="text-2xl font-light font-serif mb-1">{t('summary.title')}</h2>
+      <p className="text-xs text-white/50 mb-6">{t('summary.minutes', { count: minutes })}</p>
+
+      <div className="grid grid-cols-3 gap-4 w-full mb-6">
+        {stats.map(s => (
+          <div key={s.label} className="flex flex-col items-center">
+            <span className="text-2xl font-light tabular-nums">{s.value}</span>
+            <span className="text-[10px] text-white/50 tracking-[0.15em] uppercase text-center">{s.label}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Calm on the left, active on the right */}
+      <div className="w-full mb-2 flex h-2 rounded-full overflow-hidden bg-white/10">
+        <div className="h-full bg-emerald-200/60" style={{ width: `${calmShare * 100}%` }} />
+        <div className="h-full bg-orange-200/50 flex-1" />
+      </div>
+      <div className="w-full flex justify-between text-[11px] text-white/60 tabular-nums mb-8">
+        <span>{t('summary.calm', { percent: Math.round(calmShare * 100) })}</span>
+        <span>{t('summary.active', { percent: Math.round((1 - calmShare) * 100) })}</span>
+      </div>
+
+      <div className="flex gap-3">
+        <button onClick={onContinue} className="px-6 py-2 rounded-full text-sm text-white/70 hover:text-white transition-colors">
+          {t('summary.continue')}
+        </button>
+        <button
+          onClick={onAgain}
+          className="px-8 py-2 bg-white/90 text-slate-900 rounded-full font-medium hover:bg-white transition-all active:scale-95 shadow-lg"
+        >
+          {t('summary.again')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Plus, Trash2, Check, Upload, Download } from 'lucide-react';
+import { DandelionTheme } from '../types';
+import { skyGradient } from '../services/themes';
+import { duplicateTheme, downloadThemes, parseThemes } from '../services/themeService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface ThemeEditorProps {
+  themes: DandelionTheme[]; // built-ins first, then the user's
+  activeId: string; // theme on the main flower when the editor opened
+  onPreview: (theme: DandelionTheme) => void; // called on every edit, for the live scene
+  onSave: (theme: DandelionTheme) => void; // saves and puts it on the main flower
+  onUse: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (themes: DandelionTheme[]) => void;
+  onClose: () => void;
+}
+
+type ColorGroup = 'seed' | 'stem' | 'sky';
+
+const COLOR_GROUPS: { label: MessageKey; group: ColorGroup; fields: [string, MessageKey][] }[] = [
+  { label: 'themes.seeds', group: 'seed', fields: [['tip', 'themes.tip'], ['mid', 'themes.fluff'], ['core', 'themes.core']] },
+  { label: 'themes.stem', group: 'stem', fields: [['base', 'themes.base'], ['mid', 'themes.middle']] },
+  { label: 'themes.sky', group: 'sky', fields: [['top', 'themes.top'], ['middle', 'themes.middle'], ['bottom', 'themes.horizon']] }
+];
+
+const sectionLabel = "text-[10px] text-white/40 font-bold tracking-[0.2em] uppercase mb-2";
+
+const ColorInput: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <label className="flex flex-col items-center gap-1 text-[10px] text-white/50 cursor-pointer">
+    <input
+      type="color"
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="w-9 h-9 rounded-full border border-white/20 bg-transparent cursor-pointer [&::-webkit-color-swatch-wrapper]:p-0 [&::-webkit-color-swatch]:rounded-full [&::-webkit-color-swatch]:border-none"
+    />
+    {label}
+  </label>
+);
+
+// Side panel, so the scene behind it shows every change as it's made
+export const ThemeEditor: React.FC<ThemeEditorProps> = ({ themes, activeId, onPreview, onSave, onUse, onDelete, onImport, onClose }) => {
+  const { t } = useI18n();
+  // Built-in names are translated; user themes keep whatever name they were given
+  const nameOf = (theme: DandelionTheme) => theme.builtIn ? t(`theme.${theme.id}` as MessageKey) : theme.name;
+  const [draft, setDraft] = useState<DandelionTheme>(() => themes.find(t => t.id === activeId) ?? themes[0]);
+  const [dirty, setDirty] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    onPreview(draft);
+  }, [draft]);
+
+  const select = (theme: DandelionTheme) => {
+    setDraft(theme);
+    setDirty(false);
+    setNotice(null);
+  };
+
+  // Built-ins are read-only: the first edit turns them into a copy
+  const edit = (change: (theme: DandelionTheme) => DandelionTheme) => {
+    setDraft(current => change(current.builtIn ? duplicateTheme(current, t('themes.copyName', { name: nameOf(current) })) : current));
+    setDirty(true);
+  };
+
+  const setColor = (group: ColorGroup, key: string, value: string) =>
+    edit(t => ({ ...t, [group]: { ...t[group], [key]: value } }));
+
+  const save = () => {
+    onSave(draft);
+    setDirty(false);
+  };
+
+  const remove = () => {
+    onDelete(draft.id);
+    select(themes[0]);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseThemes(await file.text());
+      onImport(imported);
+      setNotice(t('themes.imported', { count: imported.length }));
+    } catch (err) {
+      setNotice(t('themes.importFailed', { reason: (err as Error).message }));
+    }
+  };
+
+  const userThemes = themes.filter(t => !t.builtIn);
+  // Unsaved copies aren't in the list yet, but should still look selected
+  const isSelected = (theme: DandelionTheme) => theme.id === draft.id;
+
+  return (
+    <div className="absolute top-6 right-6 bottom-6 z-30 w-full max-w-xs p-5 bg-slate-900/60 backdrop-blur-lg rounded-3xl border border-white/20 shadow-2xl text-white flex flex-col overflow-y-auto">
+      <button onClick={onClose} aria-label={t('close')} className="absolute top-4 right-4 text-white/50 hover:text-white transition-colors">
+        <X size={18} />
+      </button>
+
+      <h2 className="text-xl font-light font-serif mb-4">{t('themes.title')}</h2>
+
+      {/* Library */}
+      <div className="flex flex-wrap gap-2 mb-5">
+        {themes.map(theme => (
+          <button
+            key={theme.id}
+            onClick={() => select(theme)}
+            title={nameOf(theme)}
+            className={`w-8 h-8 rounded-full border-2 transition-transform hover:scale-110 ${isSelected(theme) ? 'border-white' : 'border-white/20'}`}
+            style={{ background: `radial-gradient(circle, ${theme.seed.core} 0%, ${theme.seed.tip} 45%, ${theme.sky.middle} 75%)` }}
+          />
+        ))}
+        <button
+          onClick={() => { select(duplicateTheme(draft, t('themes.newName'))); setDirty(true); }}
+          title={t('themes.new')}
+          className="w-8 h-8 rounded-full border-2 border-dashed border-white/30 text-white/50 hover:text-white flex items-center justify-center"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {/* Editor */}
+      <input
+        value={nameOf(draft)}
+        onChange={e => edit(t => ({ ...t, name: e.target.value.slice(0, 40) }))}
+        className="mb-1 bg-white/5 rounded-xl px-3 py-2 border border-white/10 text-sm focus:outline-none focus:border-white/30"
+      />
+      <div className="text-[11px] text-white/40 mb-4 h-4">
+        {draft.builtIn ? t('themes.builtInNote') : dirty ? t('themes.unsaved') : ''}
+      </div>
+
+      <div className="h-12 rounded-xl mb-4 border border-white/10" style={{ background: skyGradient(draft) }} />
+
+      {COLOR_GROUPS.map(({ label, group, fields }) => (
+        <div key={group} className="mb-4">
+          <div className={sectionLabel}>{t(label)}</div>
+          <div className="flex gap-3">
+            {fields.map(([key, fieldLabel]) => (
+              <ColorInput
+                key={key}
+                label={t(fieldLabel)}
+                value={(draft[group] as Record<string, string>)[key]}
+                onChange={value => setColor(group, key, value)}
+              />
+            ))}
+            {group === 'seed' && (
+              <ColorInput label={t('themes.sparkle')} value={draft.sparkle} onChange={value => edit(t => ({ ...t, sparkle: value }))} />
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-2 mt-auto pt-2">
+        <button
+          onClick={dirty ? save : () => onUse(draft.id)}
+          disabled={dirty && !draft.name.trim()}
+          className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-full bg-white/90 text-slate-900 text-sm font-medium hover:bg-white transition-all disabled:opacity-40"
+        >
+          <Check size={14} />
+          {dirty ? t('themes.save') : t('themes.use')}
+        </button>
+        {!draft.builtIn && userThemes.some(isSelected) && (
+          <button
+            onClick={remove}
+            title={t('themes.delete')}
+            className="p-2.5 rounded-full bg-white/5 border border-white/10 text-white/50 hover:text-red-200 transition-colors"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+
+      {/* Sharing */}
+      <div className="flex gap-2 mt-3 text-[10px] tracking-[0.15em] uppercase">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-full bg-white/5 border border-white/10 text-white/50 hover:text-white transition-colors"
+        >
+          <Upload size={12} />
+          {t('themes.import')}
+        </button>
+        <button
+          onClick={() => downloadThemes(userThemes)}
+          disabled={userThemes.length === 0}
+          title={t('themes.exportHint')}
+          className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-full bg-white/5 border border-white/10 text-white/50 hover:text-white transition-colors disabled:opacity-40"
+        >
+          <Download size={12} />
+          {t('themes.export')}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {notice && <div className="text-[11px] text-white/60 mt-2">{notice}</div>}
+    </div>
+  );
+};
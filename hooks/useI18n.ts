@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react';
+import { Locale, MessageKey, MessageParams, translate } from '../services/i18n';
+
+export interface I18nValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+export const I18nContext = createContext<I18nValue>({
+  locale: 'en',
+  setLocale: () => {},
+  t: (key, params) => translate('en', key, params)
+});
+
+// Current locale and a translator bound to it
+export const useI18n = () => useContext(I18nContext);
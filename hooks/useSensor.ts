@@ -0,0 +1,18 @@
+import { useEffect, useRef, useState } from 'react';
+import { SensorStore } from '../services/sensorStore';
+import { SensorFrame } from '../types';
+
+// About 10 updates a second is plenty for meters and highlights
+export const UI_UPDATE_INTERVAL = 100;
+
+// Subscribes a component to one value from the sensor stream. Only re-renders when the
+// selected value changes, and at most once per `interval` ms.
+export const useSensor = <T>(store: SensorStore, select: (frame: SensorFrame) => T, interval = UI_UPDATE_INTERVAL): T => {
+  const [value, setValue] = useState(() => select(store.get()));
+  const selectRef = useRef(select);
+  selectRef.current = select;
+
+  useEffect(() => store.subscribe(frame => setValue(selectRef.current(frame)), interval), [store, interval]);
+
+  return value;
+};
@@ -0,0 +1,227 @@
+// English strings. Every other locale must provide the same keys.
+// A message is either a plain string or plural forms picked by the {count} parameter.
+
+export const en = {
+  'app.title': 'Breathing Dandelion',
+  'app.intro': 'An interactive relaxation experience.',
+  'app.introBreath': 'Use your {word} to release.',
+  'app.introBreathWord': 'breath',
+  'app.introHead': 'Use your {word} to sway.',
+  'app.introHeadWord': 'head',
+
+  'landing.guide': 'Breathing Guide',
+  'landing.free': 'Free',
+  'landing.freeDescription': 'Blow whenever you like',
+  'landing.duration': 'Session',
+  'landing.open': 'Open',
+  'landing.minutes': '{count} min',
+  'landing.start': 'Start Experience',
+  'landing.replay': 'or replay a recorded trace',
+
+  'input.camera': 'Head Tracking',
+  'input.microphone': 'Microphone',
+  'input.keyboard': 'Keyboard',
+  'input.pointer': 'Drag',
+  'input.gamepad': 'Gamepad',
+
+  'hint.sway': '↔ Sway',
+  'hint.blow': '💨 Blow',
+  'hint.swayHead': '↔ Sway Head',
+  'hint.blowMic': '💨 Blow Mic',
+  'hint.keys': '← → Keys',
+  'hint.space': '␣ Hold Space',
+  'hint.drag': '↔ Drag',
+  'hint.flick': '↑ Flick Up',
+  'hint.stick': '🕹 Stick',
+  'hint.trigger': '🎮 Trigger',
+  'hint.replay': '▶ Replay',
+
+  'error.noInputs': 'None of the selected inputs could start. Allow camera or microphone access, or choose keyboard or drag, and refresh to try again.',
+  'notice.inputsUnavailable': '{names} unavailable — playing with the other inputs.',
+  'notice.listJoin': ' and ',
+  'notice.traceFailed': "Couldn't load trace: {reason}",
+  'notice.replayDiverged': 'Replay drifted from the recording at {time}s.',
+  'notice.fallback': '{names} unavailable — keyboard and drag are standing in.',
+
+  'stats.today': 'Today',
+  'stats.released': 'Released',
+  'stats.happySways': 'Happy Sways',
+  'stats.history': 'History',
+  'stats.achievements': 'Awards',
+
+  'settings.volume': 'Volume',
+  'settings.mute': 'Mute sound',
+  'settings.unmute': 'Unmute sound',
+  'settings.quality': 'Rendering quality, {backend} (click to change)',
+  'settings.qualityAuto': 'Auto · {tier}',
+  'settings.record': 'Record sensor trace',
+  'settings.stopRecording': 'Stop recording and save trace',
+  'settings.replay': 'Replay a sensor trace',
+  'settings.stopReplay': 'Stop replay and return to live input',
+  'settings.themes': 'Edit themes',
+  'settings.recalibrate': 'Recalibrate microphone',
+  'settings.language': 'Language',
+  'settings.reducedMotion': 'Reduced motion',
+  'settings.highContrast': 'High contrast text',
+  'settings.snapshot': 'Save a snapshot',
+  'settings.clips': 'Keep a clip of each release',
+  'settings.stopClips': 'Stop keeping clips',
+  'settings.captureOverlay': 'Date and count on captures',
+
+  'session.remaining': '{time} left',
+  'session.paused': 'Paused',
+
+  'summary.title': 'Well breathed',
+  'summary.minutes': { one: '{count} minute with your dandelions', other: '{count} minutes with your dandelions' },
+  'summary.released': 'Released',
+  'summary.happySways': 'Happy Sways',
+  'summary.averageBlow': 'Avg Breath',
+  'summary.calm': 'Calm {percent}%',
+  'summary.active': 'Active {percent}%',
+  'summary.continue': 'Keep playing',
+  'summary.again': 'Another session',
+
+  'program.box.name': 'Box',
+  'program.box.description': 'Inhale 4 · Hold 4 · Exhale 4 · Hold 4',
+  'program.478.name': '4-7-8',
+  'program.478.description': 'Inhale 4 · Hold 7 · Exhale 8',
+  'program.coherent.name': 'Coherent',
+  'program.coherent.description': '6 breaths per minute · Inhale 5 · Exhale 5',
+
+  'guide.INHALE': 'Breathe In',
+  'guide.HOLD_IN': 'Hold',
+  'guide.EXHALE': 'Breathe Out',
+  'guide.HOLD_OUT': 'Hold',
+  'guide.status': '{program} · Cycle {cycle} · Rhythm {score}%',
+
+  'calibration.title': 'Tune your microphone',
+  'calibration.intro': "We'll listen to the room for a moment, then ask for a soft breath and a strong blow, so the dandelion responds to you and not to the room.",
+  'calibration.skip': 'Skip',
+  'calibration.begin': 'Begin',
+  'calibration.ambient.title': 'Stay quiet',
+  'calibration.ambient.hint': 'Listening to the room…',
+  'calibration.soft.title': 'Breathe out softly',
+  'calibration.soft.hint': 'A slow, relaxed exhale toward the mic',
+  'calibration.strong.title': 'Now blow strongly',
+  'calibration.strong.hint': 'Like blowing out a birthday candle',
+  'calibration.done': 'All set. Your breath now releases the seeds at {percent}% strength.',
+  'calibration.redo': 'Redo',
+  'calibration.continue': 'Continue',
+
+  'history.title': 'Your Breath',
+  'history.streak': 'Streak',
+  'history.best': 'Best',
+  'history.days': { one: 'day', other: 'days' },
+  'history.thisWeek': 'This Week',
+  'history.dayDetail': '{releases} released · {happySways} happy sways · {minutes} min',
+  'history.weekly': 'Weekly',
+  'history.weekOf': 'Week of',
+  'history.sessions': 'Sessions',
+  'history.released': 'Released',
+  'history.happy': 'Happy',
+  'history.minutes': 'Min',
+  'history.breathing': 'Breathing',
+  'history.bpmChange': '{from} → {to} bpm',
+
+  'breath.listening': 'Listening for your breathing rhythm…',
+  'breath.unit': 'breaths / min',
+  'breath.exhale': 'exhale {seconds}s',
+  'breath.ratio': 'in:out 1:{ratio}',
+  'breath.onTarget': 'Resonant — just like that',
+  'breath.tooFast': 'Let each breath out a little longer',
+  'breath.tooSlow': 'Breathe as slowly as is comfortable',
+
+  'themes.title': 'Themes',
+  'themes.new': 'New theme from this one',
+  'themes.newName': 'New Theme',
+  'themes.copyName': '{name} Copy',
+  'themes.builtInNote': 'Built-in. Changes are saved as a copy.',
+  'themes.unsaved': 'Unsaved changes',
+  'themes.seeds': 'Seeds',
+  'themes.stem': 'Stem',
+  'themes.sky': 'Sky',
+  'themes.tip': 'Tips',
+  'themes.fluff': 'Fluff',
+  'themes.core': 'Core',
+  'themes.sparkle': 'Sparkle',
+  'themes.base': 'Base',
+  'themes.middle': 'Middle',
+  'themes.top': 'Top',
+  'themes.horizon': 'Horizon',
+  'themes.save': 'Save',
+  'themes.use': 'Use',
+  'themes.delete': 'Delete theme',
+  'themes.import': 'Import',
+  'themes.export': 'Export',
+  'themes.exportHint': 'Download your themes as JSON',
+  'themes.imported': { one: 'Imported {count} theme', other: 'Imported {count} themes' },
+  'themes.importFailed': "Couldn't import: {reason}",
+  'theme.white': 'White',
+  'theme.deepBlue': 'Deep Blue',
+  'theme.lavender': 'Lavender',
+  'theme.periwinkle': 'Periwinkle',
+  'theme.pale': 'Pale',
+  'theme.pink': 'Pink',
+
+  'capture.clipReady': 'A clip of your release is ready',
+  'capture.download': 'Download',
+  'capture.released': { one: '{count} release today', other: '{count} releases today' },
+
+  'achievements.title': 'Achievements',
+  'achievements.count': '{count} of {total} unlocked',
+  'achievements.unlocked': 'Achievement',
+  'achievements.announce': 'Achievement unlocked: {title}',
+  'achievement.firstRelease.title': 'First Breath',
+  'achievement.firstRelease.description': 'Release your first seeds',
+  'achievement.happySways10.title': 'Happy Dance',
+  'achievement.happySways10.description': '10 happy sways in one session',
+  'achievement.calmFive.title': 'Still Water',
+  'achievement.calmFive.description': 'Five calm minutes in one session',
+  'achievement.timedSession.title': 'Full Circle',
+  'achievement.timedSession.description': 'Finish a timed session',
+  'achievement.streak3.title': 'Taking Root',
+  'achievement.streak3.description': 'Breathe three days in a row',
+  'achievement.streak7.title': 'In Bloom',
+  'achievement.streak7.description': 'Breathe seven days in a row',
+  'achievement.everyTheme.title': 'Every Colour',
+  'achievement.everyTheme.description': 'Release seeds in every built-in theme',
+  'achievement.releases100.title': 'Seed Cloud',
+  'achievement.releases100.description': '100 releases in all',
+
+  'a11y.flower.left': 'Left dandelion',
+  'a11y.flower.center': 'Middle dandelion',
+  'a11y.flower.right': 'Right dandelion',
+  'a11y.flowerButton': '{flower}, {theme}. Press to change its colour.',
+  'a11y.themeChanged': '{flower} is now {theme}.',
+  'a11y.released': '{flower} released its seeds.',
+  'a11y.regrown': '{flower} has regrown.',
+  'a11y.happySway': 'Happy sway.',
+
+  'sensor.status': '{sensor}: {status}',
+  'sensor.starting': 'Starting',
+  'sensor.live': 'Working',
+  'sensor.recovering': 'Reconnecting',
+  'sensor.lost': 'Disconnected',
+  'sensor.denied': 'Blocked',
+  'devices.title': 'Devices',
+  'devices.microphone': 'Microphone',
+  'devices.camera': 'Camera',
+  'devices.default': 'System default',
+  'devices.unnamed': '{kind} {number}',
+  'devices.missing': 'Previous choice (not connected)',
+  'devices.denied': "Access is blocked. Allow it in your browser's site settings, then choose a device to try again.",
+  'devices.hint': 'Your choice is remembered. If a device is unplugged, the default takes over until it comes back.',
+
+  'close': 'Close'
+};
+
+// Shown one at a time under the title, each as one or two lines
+export const enPhrases: string[][] = [
+  ['Allow yourself, like a dandelion seed,', 'to drift down gently wherever you wish to land.'],
+  ['There is nowhere else you need to be.', 'Just this breath.'],
+  ['Let the out-breath be a little longer', 'than the in-breath.'],
+  ['Thoughts come and go like seeds on the wind.', 'Let them drift.'],
+  ['Soften your shoulders.', 'Let your jaw rest.'],
+  ['Each breath out is a small letting go.'],
+  ['You are allowed to slow down.']
+];
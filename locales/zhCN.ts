@@ -0,0 +1,226 @@
+import type { Messages } from '../services/i18n';
+
+// Simplified Chinese
+export const zhCN: Messages = {
+  'app.title': '呼吸蒲公英',
+  'app.intro': '一段互动式的放松体验。',
+  'app.introBreath': '用你的{word}，让种子飞散。',
+  'app.introBreathWord': '呼吸',
+  'app.introHead': '用你的{word}，让花茎摇摆。',
+  'app.introHeadWord': '头部',
+
+  'landing.guide': '呼吸引导',
+  'landing.free': '自由',
+  'landing.freeDescription': '随时都可以吹气',
+  'landing.duration': '时长',
+  'landing.open': '不限',
+  'landing.minutes': '{count} 分钟',
+  'landing.start': '开始体验',
+  'landing.replay': '或回放一段录制的记录',
+
+  'input.camera': '头部追踪',
+  'input.microphone': '麦克风',
+  'input.keyboard': '键盘',
+  'input.pointer': '拖动',
+  'input.gamepad': '手柄',
+
+  'hint.sway': '↔ 摇摆',
+  'hint.blow': '💨 吹气',
+  'hint.swayHead': '↔ 摇动头部',
+  'hint.blowMic': '💨 对着麦克风吹气',
+  'hint.keys': '← → 方向键',
+  'hint.space': '␣ 按住空格',
+  'hint.drag': '↔ 拖动',
+  'hint.flick': '↑ 向上轻扫',
+  'hint.stick': '🕹 摇杆',
+  'hint.trigger': '🎮 扳机键',
+  'hint.replay': '▶ 回放',
+
+  'error.noInputs': '所选的输入方式都无法启动。请允许使用摄像头或麦克风，或选择键盘或拖动，然后刷新页面重试。',
+  'notice.inputsUnavailable': '{names}不可用，将使用其他输入方式。',
+  'notice.listJoin': '和',
+  'notice.traceFailed': '无法加载记录：{reason}',
+  'notice.replayDiverged': '回放在第 {time} 秒与录制不一致。',
+  'notice.fallback': '{names}不可用，已改用键盘和拖动。',
+
+  'stats.today': '今天',
+  'stats.released': '已飘散',
+  'stats.happySways': '快乐摇摆',
+  'stats.history': '历史',
+  'stats.achievements': '成就',
+
+  'settings.volume': '音量',
+  'settings.mute': '静音',
+  'settings.unmute': '取消静音',
+  'settings.quality': '渲染质量，{backend}（点击切换）',
+  'settings.qualityAuto': '自动 · {tier}',
+  'settings.record': '录制传感器记录',
+  'settings.stopRecording': '停止录制并保存记录',
+  'settings.replay': '回放传感器记录',
+  'settings.stopReplay': '停止回放，回到实时输入',
+  'settings.themes': '编辑主题',
+  'settings.recalibrate': '重新校准麦克风',
+  'settings.language': '语言',
+  'settings.reducedMotion': '减少动态效果',
+  'settings.highContrast': '高对比度文字',
+  'settings.snapshot': '保存截图',
+  'settings.clips': '为每次飘散保存短片',
+  'settings.stopClips': '停止保存短片',
+  'settings.captureOverlay': '在截图和短片上显示日期与次数',
+
+  'session.remaining': '剩余 {time}',
+  'session.paused': '已暂停',
+
+  'summary.title': '呼吸得很好',
+  'summary.minutes': '和蒲公英一起度过了 {count} 分钟',
+  'summary.released': '飘散',
+  'summary.happySways': '快乐摇摆',
+  'summary.averageBlow': '平均气息',
+  'summary.calm': '平静 {percent}%',
+  'summary.active': '活跃 {percent}%',
+  'summary.continue': '继续玩',
+  'summary.again': '再来一次',
+
+  'program.box.name': '方块',
+  'program.box.description': '吸气 4 · 屏息 4 · 呼气 4 · 屏息 4',
+  'program.478.name': '4-7-8',
+  'program.478.description': '吸气 4 · 屏息 7 · 呼气 8',
+  'program.coherent.name': '共振',
+  'program.coherent.description': '每分钟 6 次呼吸 · 吸气 5 · 呼气 5',
+
+  'guide.INHALE': '吸气',
+  'guide.HOLD_IN': '屏息',
+  'guide.EXHALE': '呼气',
+  'guide.HOLD_OUT': '屏息',
+  'guide.status': '{program} · 第 {cycle} 轮 · 节奏 {score}%',
+
+  'calibration.title': '调校你的麦克风',
+  'calibration.intro': '我们会先安静地听一会儿房间的声音，再请你轻轻呼一口气、用力吹一口气，让蒲公英回应的是你，而不是环境噪音。',
+  'calibration.skip': '跳过',
+  'calibration.begin': '开始',
+  'calibration.ambient.title': '请保持安静',
+  'calibration.ambient.hint': '正在聆听房间的声音…',
+  'calibration.soft.title': '轻轻地呼气',
+  'calibration.soft.hint': '朝着麦克风，缓慢放松地呼出一口气',
+  'calibration.strong.title': '现在用力吹',
+  'calibration.strong.hint': '就像吹灭生日蜡烛一样',
+  'calibration.done': '设置完成。现在你的气息达到 {percent}% 的力度时，种子就会飘散。',
+  'calibration.redo': '重来',
+  'calibration.continue': '继续',
+
+  'history.title': '你的呼吸',
+  'history.streak': '连续',
+  'history.best': '最长',
+  'history.days': { one: '天', other: '天' },
+  'history.thisWeek': '本周',
+  'history.dayDetail': '飘散 {releases} · 快乐摇摆 {happySways} · {minutes} 分钟',
+  'history.weekly': '每周',
+  'history.weekOf': '周起始',
+  'history.sessions': '次数',
+  'history.released': '飘散',
+  'history.happy': '摇摆',
+  'history.minutes': '分钟',
+  'history.breathing': '呼吸',
+  'history.bpmChange': '{from} → {to} 次/分',
+
+  'breath.listening': '正在聆听你的呼吸节奏…',
+  'breath.unit': '次呼吸 / 分钟',
+  'breath.exhale': '呼气 {seconds} 秒',
+  'breath.ratio': '吸:呼 1:{ratio}',
+  'breath.onTarget': '共振呼吸，就是这样',
+  'breath.tooFast': '让每一次呼气再长一点',
+  'breath.tooSlow': '在舒适的范围内，慢慢呼吸',
+
+  'themes.title': '主题',
+  'themes.new': '以此为基础新建主题',
+  'themes.newName': '新主题',
+  'themes.copyName': '{name} 副本',
+  'themes.builtInNote': '内置主题，修改会另存为副本。',
+  'themes.unsaved': '有未保存的修改',
+  'themes.seeds': '种子',
+  'themes.stem': '花茎',
+  'themes.sky': '天空',
+  'themes.tip': '冠毛',
+  'themes.fluff': '绒毛',
+  'themes.core': '花托',
+  'themes.sparkle': '光点',
+  'themes.base': '根部',
+  'themes.middle': '中段',
+  'themes.top': '顶部',
+  'themes.horizon': '地平线',
+  'themes.save': '保存',
+  'themes.use': '使用',
+  'themes.delete': '删除主题',
+  'themes.import': '导入',
+  'themes.export': '导出',
+  'themes.exportHint': '将你的主题下载为 JSON 文件',
+  'themes.imported': { one: '已导入 {count} 个主题', other: '已导入 {count} 个主题' },
+  'themes.importFailed': '无法导入：{reason}',
+  'theme.white': '纯白',
+  'theme.deepBlue': '深蓝',
+  'theme.lavender': '薰衣草',
+  'theme.periwinkle': '长春花',
+  'theme.pale': '浅粉白',
+  'theme.pink': '粉红',
+
+  'capture.clipReady': '这次飘散的短片已准备好',
+  'capture.download': '下载',
+  'capture.released': '今天飘散 {count} 次',
+
+  'achievements.title': '成就',
+  'achievements.count': '已解锁 {count} / {total}',
+  'achievements.unlocked': '成就',
+  'achievements.announce': '解锁成就：{title}',
+  'achievement.firstRelease.title': '第一口气',
+  'achievement.firstRelease.description': '第一次让种子飘散',
+  'achievement.happySways10.title': '快乐之舞',
+  'achievement.happySways10.description': '一次体验中快乐摇摆 10 次',
+  'achievement.calmFive.title': '静水',
+  'achievement.calmFive.description': '一次体验中平静五分钟',
+  'achievement.timedSession.title': '圆满',
+  'achievement.timedSession.description': '完成一次定时体验',
+  'achievement.streak3.title': '扎根',
+  'achievement.streak3.description': '连续三天来呼吸',
+  'achievement.streak7.title': '盛开',
+  'achievement.streak7.description': '连续七天来呼吸',
+  'achievement.everyTheme.title': '五彩',
+  'achievement.everyTheme.description': '在每个内置主题下都让种子飘散',
+  'achievement.releases100.title': '种子之云',
+  'achievement.releases100.description': '累计飘散 100 次',
+
+  'a11y.flower.left': '左边的蒲公英',
+  'a11y.flower.center': '中间的蒲公英',
+  'a11y.flower.right': '右边的蒲公英',
+  'a11y.flowerButton': '{flower}，{theme}。按下可更换颜色。',
+  'a11y.themeChanged': '{flower}换成了{theme}。',
+  'a11y.released': '{flower}的种子飘散了。',
+  'a11y.regrown': '{flower}已经长好了。',
+  'a11y.happySway': '快乐摇摆。',
+
+  'sensor.status': '{sensor}：{status}',
+  'sensor.starting': '正在启动',
+  'sensor.live': '正常',
+  'sensor.recovering': '正在重新连接',
+  'sensor.lost': '已断开',
+  'sensor.denied': '已被阻止',
+  'devices.title': '设备',
+  'devices.microphone': '麦克风',
+  'devices.camera': '摄像头',
+  'devices.default': '系统默认',
+  'devices.unnamed': '{kind} {number}',
+  'devices.missing': '之前的选择（未连接）',
+  'devices.denied': '访问已被阻止。请在浏览器的网站设置中允许，然后重新选择设备。',
+  'devices.hint': '你的选择会被记住。设备拔出后将改用默认设备，直到它重新连接。',
+
+  'close': '关闭'
+};
+
+export const zhCNPhrases: string[][] = [
+  ['允许自己，像蒲公英的种子一样，', '轻柔地降落到想去的地方。'],
+  ['此刻，你哪里也不必去。', '只有这一次呼吸。'],
+  ['让呼气，', '比吸气再长一点点。'],
+  ['念头像风中的种子，来了又走。', '让它们飘远吧。'],
+  ['放松你的肩膀，', '让下巴也休息一下。'],
+  ['每一次呼气，都是一次小小的放下。'],
+  ['你可以慢下来。']
+];
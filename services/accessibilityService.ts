@@ -0,0 +1,41 @@
+// Reduced motion and high contrast. Reduced motion follows the system setting until the
+// user picks one themselves.
+
+const STORAGE_KEY = 'breathing-dandelion.accessibility';
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export interface AccessibilitySettings {
+  reducedMotion: boolean | null; // null follows the system
+  highContrast: boolean;
+}
+
+const DEFAULT_SETTINGS: AccessibilitySettings = { reducedMotion: null, highContrast: false };
+
+export const loadAccessibilitySettings = (): AccessibilitySettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveAccessibilitySettings = (settings: AccessibilitySettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Not worth interrupting anything over
+  }
+};
+
+export const systemPrefersReducedMotion = () =>
+  typeof window !== 'undefined' && !!window.matchMedia?.(REDUCED_MOTION_QUERY).matches;
+
+// Calls back whenever the system setting changes. Returns the unsubscribe.
+export const watchReducedMotion = (callback: (reduced: boolean) => void) => {
+  const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+  if (!query) return () => {};
+  const onChange = (e: MediaQueryListEvent) => callback(e.matches);
+  query.addEventListener('change', onChange);
+  return () => query.removeEventListener('change', onChange);
+};
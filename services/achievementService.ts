@@ -0,0 +1,112 @@
+import { AchievementId, AchievementState, SessionRecord } from '../types';
+import { computeStreaks } from './historyService';
+import { BUILT_IN_THEMES } from './themes';
+
+const STORAGE_KEY = 'breathing-dandelion.achievements';
+
+// What the checks can see: every session so far (the one in progress included) and the
+// saved achievement state
+export interface AchievementContext {
+  sessions: SessionRecord[];
+  current: SessionRecord;
+  state: AchievementState;
+  now: number;
+}
+
+interface AchievementDefinition {
+  id: AchievementId;
+  target: number;
+  measure: (ctx: AchievementContext) => number; // unlocks once this reaches the target
+}
+
+export interface AchievementStatus {
+  id: AchievementId;
+  unlockedAt: number | null;
+  current: number; // toward target, capped at it
+  target: number;
+}
+
+const totalReleases = ({ sessions }: AchievementContext) => sessions.reduce((sum, s) => sum + s.releases, 0);
+
+// In gallery order
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { id: 'firstRelease', target: 1, measure: totalReleases },
+  { id: 'happySways10', target: 10, measure: ({ current }) => current.happySways },
+  { id: 'calmFive', target: 5, measure: ({ current }) => Math.floor((current.calmSeconds ?? 0) / 60) },
+  { id: 'timedSession', target: 1, measure: ({ state }) => state.completedSessions },
+  { id: 'streak3', target: 3, measure: ({ sessions, now }) => computeStreaks(sessions, now).current },
+  { id: 'streak7', target: 7, measure: ({ sessions, now }) => computeStreaks(sessions, now).current },
+  {
+    id: 'everyTheme',
+    target: BUILT_IN_THEMES.length,
+    measure: ({ state }) => BUILT_IN_THEMES.filter(t => state.releasedThemes.includes(t.id)).length
+  },
+  { id: 'releases100', target: 100, measure: totalReleases }
+];
+
+const EMPTY_STATE: AchievementState = { unlocked: {}, releasedThemes: [], completedSessions: 0 };
+
+// `current` replaces any saved copy of itself in `sessions`, since it's usually ahead of it
+const contextFor = (sessions: SessionRecord[], current: SessionRecord, state: AchievementState, now: number): AchievementContext => ({
+  sessions: [...sessions.filter(s => s.id !== current.id), current],
+  current,
+  state,
+  now
+});
+
+export const achievementStatus = (sessions: SessionRecord[], current: SessionRecord, state: AchievementState, now = Date.now()): AchievementStatus[] => {
+  const ctx = contextFor(sessions, current, state, now);
+  return ACHIEVEMENTS.map(a => ({
+    id: a.id,
+    unlockedAt: state.unlocked[a.id] ?? null,
+    current: Math.min(a.target, a.measure(ctx)),
+    target: a.target
+  }));
+};
+
+export class AchievementService {
+  load(): AchievementState {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? { ...EMPTY_STATE, ...JSON.parse(raw) } : EMPTY_STATE;
+    } catch (error) {
+      console.error("Error loading achievements:", error);
+      return EMPTY_STATE;
+    }
+  }
+
+  // Remembers the theme a release happened in, for collecting every theme
+  recordRelease(themeId: string): AchievementState {
+    const state = this.load();
+    if (state.releasedThemes.includes(themeId)) return state;
+    return this.save({ ...state, releasedThemes: [...state.releasedThemes, themeId] });
+  }
+
+  recordCompletedSession(): AchievementState {
+    const state = this.load();
+    return this.save({ ...state, completedSessions: state.completedSessions + 1 });
+  }
+
+  // Unlocks whatever has been earned. Returns the ids unlocked just now, usually none.
+  unlockEarned(sessions: SessionRecord[], current: SessionRecord, now = Date.now()): { state: AchievementState; unlocked: AchievementId[] } {
+    const state = this.load();
+    const ctx = contextFor(sessions, current, state, now);
+    const unlocked = ACHIEVEMENTS
+      .filter(a => state.unlocked[a.id] === undefined && a.measure(ctx) >= a.target)
+      .map(a => a.id);
+    if (unlocked.length === 0) return { state, unlocked };
+
+    const next = { ...state, unlocked: { ...state.unlocked } };
+    unlocked.forEach(id => { next.unlocked[id] = now; });
+    return { state: this.save(next), unlocked };
+  }
+
+  private save(state: AchievementState): AchievementState {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.error("Error saving achievements:", error);
+    }
+    return state;
+  }
+}
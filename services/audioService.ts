@@ -1,12 +1,41 @@
+import { BlowDetector } from './blowDetector';
+import { RespirationEstimator } from './respirationEstimator';
+import { RespirationStats, SensitivityProfile } from '../types';
+
+// Used until the current microphone has been calibrated
+export const DEFAULT_SENSITIVITY: Omit<SensitivityProfile, 'deviceId' | 'calibratedAt'> = {
+  gain: 1 / 140,
+  gate: 0.1,
+  threshold: 0.75
+};
+
 export class AudioService {
   private audioContext: AudioContext | null = null;
   private analyser: AnalyserNode | null = null;
   private dataArray: Uint8Array | null = null;
   private stream: MediaStream | null = null;
 
-  async initialize(): Promise<void> {
+  // Separate high-resolution analyser for the blow classifier, so getVolume keeps its scaling
+  private pcmAnalyser: AnalyserNode | null = null;
+  private pcmArray: Float32Array | null = null;
+  private blowDetector: BlowDetector | null = null;
+  private lastDetectTime = 0;
+
+  // Rolling envelope of the level, for breathing rate
+  private respiration = new RespirationEstimator();
+
+  private gain = DEFAULT_SENSITIVITY.gain;
+  private gate = DEFAULT_SENSITIVITY.gate;
+
+  // Opens the given microphone, or the default one. Returns the stream so callers can
+  // watch its track for the device going away.
+  async initialize(deviceId: string | null = null): Promise<MediaStream> {
     try {
-      this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // Echo cancellation removes our own soundscape from the mic signal, so wind noise and
+      // chimes from the speakers don't read as breath
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, ...(deviceId && { deviceId: { exact: deviceId } }) }
+      });
       this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
       this.analyser = this.audioContext.createAnalyser();
       this.analyser.fftSize = 256;
@@ -16,13 +45,32 @@ export class AudioService {
       source.connect(this.analyser);
       
       this.dataArray = new Uint8Array(this.analyser.frequencyBinCount);
+
+      this.blowDetector = new BlowDetector(this.audioContext.sampleRate);
+      this.pcmAnalyser = this.audioContext.createAnalyser();
+      this.pcmAnalyser.fftSize = this.blowDetector.getFrameSize();
+      source.connect(this.pcmAnalyser);
+      this.pcmArray = new Float32Array(this.pcmAnalyser.fftSize);
+      return this.stream;
     } catch (error) {
       console.error("Error accessing microphone:", error);
       throw error;
     }
   }
 
-  getVolume(): number {
+  // ID of the input device actually in use, for looking up its calibration
+  getDeviceId(): string {
+    const track = this.stream?.getAudioTracks()[0];
+    return track?.getSettings().deviceId || 'default';
+  }
+
+  setSensitivity(profile: Pick<SensitivityProfile, 'gain' | 'gate'>) {
+    this.gain = profile.gain;
+    this.gate = profile.gate;
+  }
+
+  // Average FFT magnitude (0-255) before gain and gate. Calibration measures this.
+  getRawLevel(): number {
     if (!this.analyser || !this.dataArray) return 0;
     
     this.analyser.getByteFrequencyData(this.dataArray);
@@ -31,30 +79,59 @@ export class AudioService {
     let sum = 0;
     const length = this.dataArray.length;
     // Blowing typically dominates low-mid frequencies, but wind noise on mic is broad.
-    // We sum all but with a higher divisor to lower sensitivity.
     for (let i = 0; i < length; i++) {
       sum += this.dataArray[i];
     }
     
-    const average = sum / length;
-    
-    // Normalize.
-    // Increased divisor from 100 to 140 to make it less sensitive.
-    // You now need to blow harder/closer to reach > 0.6
-    let volume = average / 140;
+    return sum / length;
+  }
+
+  getVolume(): number {
+    // Normalize with the calibrated gain for this mic
+    let volume = this.getRawLevel() * this.gain;
+    // Before the gate: quiet inhales are part of the pattern
+    this.respiration.process(volume, performance.now());
     
     // Noise gate: if it's too quiet, ignore it completely to prevent jitter
-    if (volume < 0.1) volume = 0;
+    if (volume < this.gate) volume = 0;
     
     return Math.min(volume, 1);
   }
 
+  // 0 to 1: how sure we are that the current sound is a sustained breath rather than
+  // speech, music or a bang. Call once per frame; it tracks the sound's envelope over time.
+  getBlowConfidence(): number {
+    if (!this.pcmAnalyser || !this.pcmArray || !this.blowDetector) return 0;
+
+    this.pcmAnalyser.getFloatTimeDomainData(this.pcmArray);
+    const now = performance.now();
+    const dt = this.lastDetectTime ? now - this.lastDetectTime : 16;
+    this.lastDetectTime = now;
+
+    return this.blowDetector.process(this.pcmArray, dt);
+  }
+
+  // Raw level weighted by how breath-like it is. This is what should drive releases.
+  getBlowStrength(): number {
+    return this.getVolume() * this.getBlowConfidence();
+  }
+
+  // Breaths per minute and timing, once a few breaths have been heard. Fed by getVolume.
+  getRespiration(): RespirationStats | null {
+    return this.respiration.getStats(performance.now());
+  }
+
   cleanup() {
+    this.respiration.reset();
     if (this.stream) {
       this.stream.getTracks().forEach(track => track.stop());
+      this.stream = null;
     }
     if (this.audioContext) {
       this.audioContext.close();
+      this.audioContext = null;
     }
+    this.analyser = null;
+    this.pcmAnalyser = null;
   }
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { BlowDetector } from './blowDetector';
+import { seededRandom } from './random';
+
+const SAMPLE_RATE = 44100;
+const FRAME = 2048;
+const FRAME_MS = (FRAME / SAMPLE_RATE) * 1000;
+
+// Synthetic fixtures, one frame each. `offset` keeps tones continuous across frames.
+const whiteNoise = (random: () => number, amplitude = 0.3) =>
+  Float32Array.from({ length: FRAME }, () => (random() * 2 - 1) * amplitude);
+
+const sine = (hz: number, offset = 0, amplitude = 0.3) =>
+  Float32Array.from({ length: FRAME }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * (offset + i)) / SAMPLE_RATE));
+
+// Voiced speech: a low fundamental with harmonics falling off up to 4 kHz
+const harmonics = (f0: number, offset = 0, amplitude = 0.3) =>
+  Float32Array.from({ length: FRAME }, (_, i) => {
+    let v = 0;
+    for (let k = 1; k * f0 < 4000; k++) v += Math.sin((2 * Math.PI * k * f0 * (offset + i)) / SAMPLE_RATE) / k;
+    return v * amplitude * 0.5;
+  });
+
+const impulse = () => {
+  const frame = new Float32Array(FRAME);
+  frame[FRAME / 2] = 0.9;
+  return frame;
+};
+
+// Runs `frames` consecutive frames through a fresh detector and returns every confidence
+const feed = (make: (index: number) => Float32Array, frames = 20) => {
+  const detector = new BlowDetector(SAMPLE_RATE, FRAME);
+  return Array.from({ length: frames }, (_, i) => detector.process(make(i), FRAME_MS));
+};
+
+describe('BlowDetector', () => {
+  it('builds confidence toward 1 on sustained white noise', () => {
+    const random = seededRandom(7);
+    const confidence = feed(() => whiteNoise(random));
+    expect(confidence[0]).toBeLessThan(0.5); // a single frame isn't a breath yet
+    expect(confidence[confidence.length - 1]).toBeGreaterThan(0.95);
+  });
+
+  it('scores white noise as noisy and broadband', () => {
+    const detector = new BlowDetector(SAMPLE_RATE, FRAME);
+    const features = detector.analyze(whiteNoise(seededRandom(3)));
+    expect(features.noisiness).toBeGreaterThan(0.42);
+    expect(BlowDetector.bandCoverage(features.bandEnergies)).toBe(1);
+    expect(BlowDetector.frameScore(features)).toBeGreaterThan(0.9);
+  });
+
+  it('stays near 0 on a sine tone', () => {
+    const confidence = feed(i => sine(440, i * FRAME));
+    expect(Math.max(...confidence)).toBeLessThan(0.05);
+  });
+
+  it('stays near 0 on a speech-like harmonic stack', () => {
+    const confidence = feed(i => harmonics(140, i * FRAME));
+    expect(Math.max(...confidence)).toBeLessThan(0.05);
+  });
+
+  it('ignores a single impulse', () => {
+    const detector = new BlowDetector(SAMPLE_RATE, FRAME);
+    const features = detector.analyze(impulse());
+    expect(features.crest).toBeGreaterThan(8);
+    expect(BlowDetector.frameScore(features)).toBe(0);
+    expect(detector.process(impulse(), FRAME_MS)).toBe(0);
+  });
+
+  it('ignores silence', () => {
+    expect(Math.max(...feed(() => new Float32Array(FRAME)))).toBe(0);
+  });
+
+  it('lets confidence fall away once the noise stops', () => {
+    const random = seededRandom(11);
+    const confidence = feed(i => i < 15 ? whiteNoise(random) : sine(440, i * FRAME), 30);
+    expect(confidence[14]).toBeGreaterThan(0.95);
+    expect(confidence[29]).toBeLessThan(0.05);
+  });
+});
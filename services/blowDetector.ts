@@ -0,0 +1,197 @@
+// Tells broadband breath noise apart from voiced speech, music and transients.
+// Works on raw PCM frames so it can be driven by the mic analyser or by synthetic fixtures.
+
+export interface BlowFeatures {
+  rms: number;
+  crest: number; // peak / rms of the frame; high for clicks and slams
+  noisiness: number; // 0 (tonal) to ~0.56 (white noise), mean spectral flatness within each band
+  bandEnergies: number[]; // power per analysis band, see BANDS
+}
+
+// Octave-ish analysis bands in Hz. Breath covers them all, voice piles energy onto harmonics.
+export const BANDS: [number, number][] = [
+  [100, 250],
+  [250, 500],
+  [500, 1000],
+  [1000, 2000],
+  [2000, 4000],
+  [4000, 8000]
+];
+
+const SILENCE_RMS = 0.005;       // Below this the frame is treated as silence
+const IMPULSE_CREST = 8;         // Crest factor above which a frame is a click/slam
+const NOISY_LOW = 0.2;           // Noisiness where breath confidence starts
+const NOISY_HIGH = 0.42;         // Noisiness where breath confidence is full
+const BAND_FLOOR_DB = -30;       // A band counts as covered within this many dB of the loudest
+const SUSTAIN_MS = 150;          // A real breath holds for at least this long
+const RELEASE_MS = 120;          // Time constant for confidence falling back to 0
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+export class BlowDetector {
+  private readonly size: number;
+  private readonly window: Float64Array;
+  private readonly re: Float64Array;
+  private readonly im: Float64Array;
+  private readonly bandBins: [number, number][];
+
+  private sustainMs = 0;
+  private confidence = 0;
+
+  constructor(sampleRate: number, frameSize = 2048) {
+    if (frameSize & (frameSize - 1)) throw new Error("BlowDetector frame size must be a power of two");
+    this.size = frameSize;
+    this.re = new Float64Array(frameSize);
+    this.im = new Float64Array(frameSize);
+
+    // Hann window
+    this.window = new Float64Array(frameSize);
+    for (let i = 0; i < frameSize; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameSize - 1));
+    }
+
+    const binHz = sampleRate / frameSize;
+    const maxBin = frameSize / 2 - 1;
+    this.bandBins = BANDS.map(([lo, hi]) => [
+      Math.min(maxBin, Math.max(1, Math.round(lo / binHz))),
+      Math.min(maxBin, Math.round(hi / binHz))
+    ]);
+  }
+
+  getFrameSize(): number {
+    return this.size;
+  }
+
+  // Pure feature extraction for a single frame. Frames shorter than the frame size are zero-padded.
+  analyze(frame: Float32Array): BlowFeatures {
+    const n = Math.min(frame.length, this.size);
+    let sumSq = 0;
+    let peak = 0;
+    for (let i = 0; i < n; i++) {
+      const v = frame[i];
+      sumSq += v * v;
+      peak = Math.max(peak, Math.abs(v));
+    }
+    const rms = n > 0 ? Math.sqrt(sumSq / n) : 0;
+    const crest = rms > 0 ? peak / rms : 0;
+
+    for (let i = 0; i < this.size; i++) {
+      this.re[i] = i < n ? frame[i] * this.window[i] : 0;
+      this.im[i] = 0;
+    }
+    this.fft();
+
+    const bandEnergies: number[] = [];
+    let flatnessSum = 0;
+    let flatnessBands = 0;
+    this.bandBins.forEach(([start, end]) => {
+      let sum = 0;
+      let logSum = 0;
+      const count = end - start + 1;
+      for (let k = start; k <= end; k++) {
+        const power = this.re[k] * this.re[k] + this.im[k] * this.im[k] + 1e-20;
+        sum += power;
+        logSum += Math.log(power);
+      }
+      bandEnergies.push(count > 0 ? sum : 0);
+      // A band needs a few bins for flatness to mean anything
+      if (count >= 4) {
+        flatnessSum += Math.exp(logSum / count) / (sum / count);
+        flatnessBands++;
+      }
+    });
+
+    return {
+      rms,
+      crest,
+      noisiness: flatnessBands > 0 ? flatnessSum / flatnessBands : 0,
+      bandEnergies
+    };
+  }
+
+  // How much of the spectrum carries energy: 1 when every band is within BAND_FLOOR_DB of the loudest
+  static bandCoverage(bandEnergies: number[]): number {
+    const max = Math.max(...bandEnergies);
+    if (max <= 0) return 0;
+    const floor = max * Math.pow(10, BAND_FLOOR_DB / 10);
+    return bandEnergies.filter(e => e >= floor).length / bandEnergies.length;
+  }
+
+  // Instantaneous likelihood (0 to 1) that a frame is breath noise, ignoring its history
+  static frameScore(features: BlowFeatures): number {
+    if (features.rms < SILENCE_RMS || features.crest > IMPULSE_CREST) return 0;
+    return smoothstep(NOISY_LOW, NOISY_HIGH, features.noisiness) * smoothstep(0.3, 0.8, BlowDetector.bandCoverage(features.bandEnergies));
+  }
+
+  // Feeds one frame through the temporal envelope. `dtMs` is the time since the previous frame.
+  process(frame: Float32Array, dtMs: number): number {
+    const score = BlowDetector.frameScore(this.analyze(frame));
+
+    // Only sustained breath-like frames build confidence, so slams and single words can't
+    if (score > 0.5) {
+      this.sustainMs += dtMs;
+    } else {
+      this.sustainMs = 0;
+    }
+    const target = score * smoothstep(0, SUSTAIN_MS, this.sustainMs);
+
+    if (target >= this.confidence) {
+      this.confidence = target;
+    } else {
+      this.confidence += (target - this.confidence) * (1 - Math.exp(-dtMs / RELEASE_MS));
+    }
+    return this.confidence;
+  }
+
+  getConfidence(): number {
+    return this.confidence;
+  }
+
+  reset() {
+    this.sustainMs = 0;
+    this.confidence = 0;
+  }
+
+  // In-place iterative radix-2 FFT over re/im
+  private fft() {
+    const n = this.size;
+    const re = this.re;
+    const im = this.im;
+
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) j ^= bit;
+      j ^= bit;
+      if (i < j) {
+        [re[i], re[j]] = [re[j], re[i]];
+        [im[i], im[j]] = [im[j], im[i]];
+      }
+    }
+
+    for (let len = 2; len <= n; len <<= 1) {
+      const angle = (-2 * Math.PI) / len;
+      const wRe = Math.cos(angle);
+      const wIm = Math.sin(angle);
+      for (let i = 0; i < n; i += len) {
+        let curRe = 1;
+        let curIm = 0;
+        for (let k = 0; k < len / 2; k++) {
+          const a = i + k;
+          const b = a + len / 2;
+          const tRe = re[b] * curRe - im[b] * curIm;
+          const tIm = re[b] * curIm + im[b] * curRe;
+          re[b] = re[a] - tRe;
+          im[b] = im[a] - tIm;
+          re[a] += tRe;
+          im[a] += tIm;
+          const nextRe = curRe * wRe - curIm * wIm;
+          curIm = curRe * wIm + curIm * wRe;
+          curRe = nextRe;
+        }
+      }
+    }
+  }
+}
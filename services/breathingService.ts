@@ -0,0 +1,98 @@
+import { BreathingProgram, BreathGuideState, BreathPhase } from '../types';
+
+export const BREATHING_PROGRAMS: BreathingProgram[] = [
+  {
+    id: 'box',
+    name: 'Box',
+    description: 'Inhale 4 · Hold 4 · Exhale 4 · Hold 4',
+    steps: [
+      { phase: 'INHALE', duration: 4 },
+      { phase: 'HOLD_IN', duration: 4 },
+      { phase: 'EXHALE', duration: 4 },
+      { phase: 'HOLD_OUT', duration: 4 }
+    ]
+  },
+  {
+    id: '478',
+    name: '4-7-8',
+    description: 'Inhale 4 · Hold 7 · Exhale 8',
+    steps: [
+      { phase: 'INHALE', duration: 4 },
+      { phase: 'HOLD_IN', duration: 7 },
+      { phase: 'EXHALE', duration: 8 }
+    ]
+  },
+  {
+    id: 'coherent',
+    name: 'Coherent',
+    description: '6 breaths per minute · Inhale 5 · Exhale 5',
+    steps: [
+      { phase: 'INHALE', duration: 5 },
+      { phase: 'EXHALE', duration: 5 }
+    ]
+  }
+];
+
+// A breath above this level counts as "breathing out" when scoring
+const EXHALE_LEVEL = 0.3;
+// Ignore the first moments of each phase so a slightly late start isn't punished
+const PHASE_GRACE = 0.15;
+
+export class BreathingService {
+  private program: BreathingProgram | null = null;
+  private startTime = 0;
+  private cycleLength = 0;
+  private matchedSamples = 0;
+  private totalSamples = 0;
+
+  start(program: BreathingProgram, now: number) {
+    this.program = program;
+    this.startTime = now;
+    this.cycleLength = program.steps.reduce((sum, s) => sum + s.duration, 0);
+    this.matchedSamples = 0;
+    this.totalSamples = 0;
+  }
+
+  stop() {
+    this.program = null;
+  }
+
+  isActive(): boolean {
+    return this.program !== null;
+  }
+
+  // Advances the guide to `now` (ms) and scores the measured breath against the expected phase
+  update(now: number, blowStrength: number): BreathGuideState | null {
+    if (!this.program) return null;
+
+    const elapsed = Math.max(0, (now - this.startTime) / 1000);
+    const cycle = Math.floor(elapsed / this.cycleLength);
+    let t = elapsed - cycle * this.cycleLength;
+
+    let stepIndex = 0;
+    while (stepIndex < this.program.steps.length - 1 && t >= this.program.steps[stepIndex].duration) {
+      t -= this.program.steps[stepIndex].duration;
+      stepIndex++;
+    }
+
+    const step = this.program.steps[stepIndex];
+    const progress = Math.min(1, t / step.duration);
+
+    if (progress > PHASE_GRACE) {
+      const exhaling = blowStrength > EXHALE_LEVEL;
+      const expectExhale = step.phase === 'EXHALE';
+      if (exhaling === expectExhale) this.matchedSamples++;
+      this.totalSamples++;
+    }
+
+    return {
+      phase: step.phase,
+      progress,
+      secondsLeft: Math.ceil(step.duration - t),
+      cycle,
+      score: this.totalSamples > 0 ? Math.round((this.matchedSamples / this.totalSamples) * 100) : 0
+    };
+  }
+}
+
+export const isReleasePhase = (phase: BreathPhase) => phase === 'EXHALE';
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { CalibrationSample, deriveProfile } from './calibrationService';
+
+// A 3 s step at 60 fps: steady level, with confidence ramping up over the first `rampFrames`
+const step = (level: number, confidence: number, rampFrames = 0): CalibrationSample[] =>
+  Array.from({ length: 180 }, (_, i) => ({ level, confidence: confidence * Math.min(1, i / Math.max(1, rampFrames)) }));
+
+// What the simulation compares with the threshold, as AudioService.getBlowStrength computes it
+const blowStrength = (s: CalibrationSample, gain: number, gate: number) => {
+  const volume = Math.min(1, s.level * gain);
+  return volume < gate ? 0 : volume * s.confidence;
+};
+
+describe('deriveProfile', () => {
+  it('puts the threshold between a soft breath and a strong blow', () => {
+    const soft = step(40, 0.5, 10);
+    const strong = step(120, 1, 10);
+    const profile = deriveProfile('mic', step(5, 0), soft, strong);
+    const softStrength = blowStrength(soft[90], profile.gain, profile.gate);
+    const strongStrength = blowStrength(strong[90], profile.gain, profile.gate);
+    expect(profile.threshold).toBeGreaterThan(softStrength);
+    expect(profile.threshold).toBeLessThan(strongStrength);
+  });
+
+  it('keeps the threshold under a strong blow the classifier is only partly sure of', () => {
+    const strong = step(120, 0.55, 30);
+    const profile = deriveProfile('mic', step(5, 0), step(40, 0.3, 10), strong);
+    const sustained = strong.slice(60).map(s => blowStrength(s, profile.gain, profile.gate));
+    expect(Math.min(...sustained)).toBeGreaterThan(profile.threshold);
+  });
+
+  it('gates out the room', () => {
+    const profile = deriveProfile('mic', step(20, 0), step(60, 0.4), step(150, 1));
+    expect(20 * profile.gain).toBeLessThan(profile.gate * 1.21);
+    expect(60 * profile.gain).toBeGreaterThan(profile.gate);
+  });
+});
@@ -0,0 +1,89 @@
+import { SensitivityProfile } from '../types';
+
+const STORAGE_KEY = 'breathing-dandelion.sensitivity';
+
+// Volume a strong blow should map to, leaving a little headroom below 1
+const STRONG_TARGET = 0.9;
+const MIN_THRESHOLD = 0.3;
+const MAX_THRESHOLD = 0.85;
+const STRONG_HEADROOM = 0.85;  // The threshold stays this far under what the strong blow reached
+const FLOOR_THRESHOLD = 0.25;  // Matches the simulation's loosen level; below it every breath is strong
+
+// One frame of a calibration step
+export interface CalibrationSample {
+  level: number; // raw level, 0-255
+  confidence: number; // blow classifier confidence, 0 to 1
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+
+const percentile = (values: number[], p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+// Derives gain, gate and release threshold from the frames sampled during the ambient,
+// soft breath and strong blow steps of calibration.
+export const deriveProfile = (
+  deviceId: string,
+  ambient: CalibrationSample[],
+  soft: CalibrationSample[],
+  strong: CalibrationSample[]
+): SensitivityProfile => {
+  const levels = (samples: CalibrationSample[]) => samples.map(s => s.level);
+  const ambientLevel = percentile(levels(ambient), 0.95);
+
+  // Only frames above the room noise count as breath; people pause mid-step
+  const breathing = soft.filter(s => s.level > ambientLevel);
+  const softLevel = percentile(levels(breathing), 0.5) || mean(levels(soft));
+  const strongLevel = Math.max(percentile(levels(strong), 0.9), softLevel + 1, ambientLevel + 1);
+
+  const gain = STRONG_TARGET / strongLevel;
+
+  // Gate sits just above the room, but always below a soft breath
+  const softVolume = softLevel * gain;
+  const gate = Math.min(ambientLevel * gain * 1.2, softVolume * 0.8);
+
+  // Releases compare the threshold with blow strength (gated volume times classifier confidence),
+  // so the steps are measured the same way
+  const strength = (s: CalibrationSample) => {
+    const volume = Math.min(1, s.level * gain);
+    return volume < gate ? 0 : volume * s.confidence;
+  };
+  const softStrength = percentile((breathing.length > 0 ? breathing : soft).map(strength), 0.5);
+  const strongStrength = percentile(strong.map(strength), 0.75);
+
+  // Halfway between a soft breath and a strong blow, so breathing doesn't count, but always
+  // under what the strong blow reached, so the user's own blow releases
+  const midway = Math.min(MAX_THRESHOLD, Math.max(MIN_THRESHOLD, softStrength + (strongStrength - softStrength) * 0.5));
+  const threshold = Math.max(FLOOR_THRESHOLD, Math.min(midway, strongStrength * STRONG_HEADROOM));
+
+  return { deviceId, gain, gate, threshold, calibratedAt: Date.now() };
+};
+
+export class CalibrationService {
+  private loadAll(): Record<string, SensitivityProfile> {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? JSON.parse(raw) : {};
+    } catch (error) {
+      console.error("Error reading sensitivity profiles:", error);
+      return {};
+    }
+  }
+
+  getProfile(deviceId: string): SensitivityProfile | null {
+    return this.loadAll()[deviceId] ?? null;
+  }
+
+  saveProfile(profile: SensitivityProfile) {
+    const profiles = this.loadAll();
+    profiles[profile.deviceId] = profile;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+    } catch (error) {
+      console.error("Error saving sensitivity profile:", error);
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import { Particle } from '../types';
+import { DandelionSimulation } from './dandelionSimulation';
+import { DandelionRenderer, RenderFrame, SeedProjection, cameraFor, projectSeed } from './renderer';
+
+const byDepth = (a: Particle, b: Particle) => b.z - a.z;
+
+// The original Canvas 2D drawing path. Kept as the fallback when WebGL isn't available.
+export class Canvas2DRenderer implements DandelionRenderer {
+  readonly backend = 'canvas2d';
+
+  private readonly ctx: CanvasRenderingContext2D;
+  private readonly seed: SeedProjection = { baseX: 0, baseY: 0, tipX: 0, tipY: 0, scale: 0, alpha: 0 };
+  // Draw order per flower; one renderer draws every flower in the scene
+  private readonly depthOrder = new WeakMap<DandelionSimulation, { source: Particle[]; attached: Particle[] }>();
+  private readonly drifting: Particle[] = [];
+
+  constructor(private readonly canvas: HTMLCanvasElement) {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D not supported");
+    this.ctx = ctx;
+  }
+
+  resize(width: number, height: number) {
+    this.canvas.width = width;
+    this.canvas.height = height;
+  }
+
+  begin() {
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  render({ sim, theme, quality, fluff, displayScale, frame }: RenderFrame) {
+    const { ctx } = this;
+
+    // --- Draw Stem ---
+    const { baseX: startX, baseY: startY, midX, midY, headX, headY, angle: currentSway } = sim.geometry;
+
+    ctx.lineCap = 'round';
+
+    // Stem Body (Now adapts to theme color at the top)
+    const stemGradient = ctx.createLinearGradient(startX, startY, headX, headY);
+    stemGradient.addColorStop(0, `rgba(${theme.stemBase}, 1)`); // Fresh leafy green base
+    stemGradient.addColorStop(0.5, `rgba(${theme.stemMid}, 1)`); // Tender, vibrant green mid-section
+    stemGradient.addColorStop(1, `rgba(${theme.mid}, 1)`); // Syncs with flower color
+
+    ctx.beginPath();
+    ctx.moveTo(startX, startY);
+    ctx.quadraticCurveTo(midX, midY, headX, headY);
+    ctx.strokeStyle = stemGradient;
+    ctx.lineWidth = 8 * displayScale;
+    ctx.stroke();
+
+    // Stem Highlight
+    ctx.beginPath();
+    ctx.moveTo(startX, startY);
+    ctx.quadraticCurveTo(midX, midY, headX, headY);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    // --- Draw Round Receptacle (The Core) ---
+    ctx.save();
+    ctx.translate(headX, headY);
+    ctx.rotate(currentSway);
+
+    const radius = 28 * displayScale;
+
+    // 1. Draw Base Sphere
+    ctx.beginPath();
+    ctx.arc(0, 0, radius - 2, 0, Math.PI * 2);
+
+    // Enhanced core gradient with theme color
+    const rGrad = ctx.createRadialGradient(0, 0, 5, 0, 0, radius);
+    rGrad.addColorStop(0, `rgba(${theme.core}, 1)`);
+    rGrad.addColorStop(1, `rgba(${theme.mid}, 1)`);
+    ctx.fillStyle = rGrad;
+    ctx.fill();
+
+    // 2. Draw Fuzzy Hair Texture on the core
+    fluff.forEach(f => {
+      ctx.beginPath();
+      ctx.strokeStyle = `rgba(${theme.mid}, ${f.alpha})`;
+      ctx.lineWidth = 1.5;
+
+      // Removed dynamic microwave effect to stop shaking
+      const drawAngle = f.angle;
+
+      // Apply displayScale to local coordinates
+      const fx = f.x * displayScale;
+      const fy = f.y * displayScale;
+      const flength = f.length * displayScale;
+
+      ctx.moveTo(fx, fy);
+      ctx.lineTo(fx + Math.cos(drawAngle) * flength, fy + Math.sin(drawAngle) * flength);
+      ctx.stroke();
+    });
+
+    // 3. Soft Glow around core (shadow blur is expensive, so only on the richer tiers)
+    if (quality.glow) {
+      ctx.shadowColor = `rgba(${theme.tip}, 0.8)`;
+      ctx.shadowBlur = 20 * displayScale;
+    }
+    ctx.strokeStyle = `rgba(${theme.mid}, 0.5)`;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.arc(0, 0, radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+
+    ctx.restore();
+
+    // --- Draw Sparkles (Screen Mode for Glow) ---
+    ctx.globalCompositeOperation = 'screen';
+    sim.sparkles.forEach(s => {
+      if (s.life > 0) {
+        const sScale = 500 / (500 + s.z);
+        if (sScale > 0) {
+          ctx.beginPath();
+          const alpha = (s.life / s.maxLife) * s.alpha;
+          ctx.fillStyle = `rgba(${theme.sparkle}, ${alpha})`;
+          ctx.arc(s.x, s.y, s.size * sScale, 0, Math.PI * 2);
+          ctx.fill();
+        }
+      }
+    });
+
+    // --- Draw Dandelion Seeds (Particles) ---
+    // Using screen blend mode ensures the colors pop on dark background
+    // and overlap nicely
+    // Sorted copies, so drawing never reorders the simulation's own arrays. Attached seeds
+    // only turn with the head, so lower tiers re-sort them less often; drifting seeds come
+    // and go every frame.
+    let order = this.depthOrder.get(sim);
+    if (!order || order.source !== sim.particles || frame % quality.sortInterval === 0) {
+      order = { source: sim.particles, attached: [...sim.particles].sort(byDepth) };
+      this.depthOrder.set(sim, order);
+    }
+    const drifting = this.drifting;
+    drifting.length = 0;
+    for (const p of sim.drifting) drifting.push(p);
+    drifting.sort(byDepth);
+
+    // Landed seeds first (they're on the ground behind the flower), then the ones in the air
+    const seed = this.seed;
+    const camera = cameraFor(this.canvas.width, this.canvas.height);
+    const drawSeed = (p: Particle) => {
+      if (!projectSeed(p, headX, headY, camera, displayScale, seed)) return;
+      const { baseX, baseY, tipX, tipY, scale, alpha: zAlpha } = seed;
+      const stalkAngle = Math.atan2(tipY - baseY, tipX - baseX);
+
+      // 1. Draw Stalk (Inner Part)
+      // Uses 'mid' color - slightly stronger for visibility
+      ctx.beginPath();
+      ctx.strokeStyle = `rgba(${theme.mid}, ${zAlpha * 0.8})`;
+      ctx.lineWidth = 0.6 * scale;
+      ctx.moveTo(baseX, baseY);
+      ctx.lineTo(tipX, tipY);
+      ctx.stroke();
+
+      // Seed Body
+      ctx.beginPath();
+      ctx.fillStyle = `rgba(${theme.mid}, ${zAlpha})`;
+      ctx.ellipse(baseX, baseY, 1.5 * scale, 1 * scale, stalkAngle, 0, Math.PI * 2);
+      ctx.fill();
+
+      // 2. Draw Pappus/Fluff (Outer Part)
+      // Uses 'tip' color - Vibrant
+      // Scale pappus size for mobile
+      const pappusSize = 10 * scale * p.size * displayScale;
+
+      ctx.strokeStyle = `rgba(${theme.tip}, ${zAlpha * 0.6})`;
+      ctx.lineWidth = 0.5 * scale;
+      ctx.beginPath();
+
+      const fanCount = quality.pappusHairs - 1;
+      for (let k = 0; k <= fanCount && quality.pappusHairs > 1; k++) {
+        const range = (k / fanCount - 0.5) * 2;
+        const hairAngle = stalkAngle + range * 0.8;
+        // REPLACED Math.random() with deterministic logic to prevent shaking
+        const deterministicVariation = 0.8 + ((k % 3) * 0.1) + (p.size * 0.2);
+        const fluffLen = pappusSize * deterministicVariation;
+        const hx = tipX + Math.cos(hairAngle) * fluffLen;
+        const hy = tipY + Math.sin(hairAngle) * fluffLen;
+        ctx.moveTo(tipX, tipY);
+        ctx.lineTo(hx, hy);
+      }
+      ctx.stroke();
+
+      // Tip Dot
+      ctx.beginPath();
+      ctx.fillStyle = `rgba(${theme.tip}, ${zAlpha * 0.8})`;
+      ctx.arc(tipX, tipY, 1.5 * scale, 0, Math.PI * 2);
+      ctx.fill();
+    };
+    sim.grounded.forEach(drawSeed);
+    drifting.forEach(drawSeed);
+    order.attached.forEach(drawSeed);
+
+    // Reset composite operation
+    ctx.globalCompositeOperation = 'source-over';
+  }
+}
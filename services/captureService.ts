@@ -0,0 +1,223 @@
+import { DandelionTheme } from '../types';
+
+// Snapshots and short clips of the scene. The sky is CSS and the meadow and flowers are
+// separate canvases, so each frame they're composed into one canvas that can be saved as a
+// PNG or streamed into a MediaRecorder.
+//
+// Clips come from a rolling buffer: two recorders run staggered by half a segment and
+// restart whenever they get too old, so one of them always holds the last few seconds.
+// A release keeps the older one running a little longer and then hands out its recording,
+// which is a complete WebM file from its own start.
+
+const STORAGE_KEY = 'breathing-dandelion.capture';
+
+const SEGMENT_MS = 5000;      // Recorder stagger; a clip has 5 to 10 s before the release
+const POST_ROLL_MS = 3000;    // Kept recording after a release to catch the seeds drifting off
+const MAX_CLIP_MS = 20000;    // Releases in quick succession extend a clip up to this
+const CLIP_FPS = 30;
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export interface CaptureSettings {
+  overlay: boolean; // date and today's releases in the corner
+}
+
+const DEFAULT_SETTINGS: CaptureSettings = { overlay: true };
+
+export const loadCaptureSettings = (): CaptureSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveCaptureSettings = (settings: CaptureSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Not worth interrupting anything over
+  }
+};
+
+const clipMimeType = () =>
+  typeof MediaRecorder === 'undefined' ? null : MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+export const downloadCapture = (blob: Blob, extension: 'png' | 'webm') => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `dandelion-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
+  a.click();
+  // Give the download a moment to pick the blob up before it's released
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+interface BufferRecorder {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+  keepUntil: number | null; // set when a release wants this recording
+}
+
+export class CaptureService {
+  private composite = document.createElement('canvas');
+  private ctx = this.composite.getContext('2d')!;
+  private sky: DandelionTheme | null = null;
+  private meadow: HTMLCanvasElement | null = null;
+  private overlay: string[] | null = null;
+
+  private pendingSnapshots: ((blob: Blob | null) => void)[] = [];
+
+  private stream: MediaStream | null = null;
+  private recorders: BufferRecorder[] = [];
+  private onClip: ((clip: Blob) => void) | null = null;
+  private readonly mimeType = clipMimeType();
+
+  static clipsSupported() {
+    return clipMimeType() !== null && 'captureStream' in HTMLCanvasElement.prototype;
+  }
+
+  // What sits behind the flowers
+  setBackdrop(sky: DandelionTheme, meadow: HTMLCanvasElement | null) {
+    this.sky = sky;
+    this.meadow = meadow;
+  }
+
+  // Lines drawn in the corner of snapshots and clips, or null for none
+  setOverlay(lines: string[] | null) {
+    this.overlay = lines;
+  }
+
+  // Call straight after the flowers are drawn each frame. WebGL clears its buffer once the
+  // frame is shown, so this is the only moment its pixels can be read.
+  frame(flowers: HTMLCanvasElement, now: number) {
+    if (this.pendingSnapshots.length === 0 && !this.stream) return;
+    this.compose(flowers);
+
+    if (this.pendingSnapshots.length > 0) {
+      const waiting = this.pendingSnapshots;
+      this.pendingSnapshots = [];
+      this.composite.toBlob(blob => waiting.forEach(resolve => resolve(blob)), 'image/png');
+    }
+    if (this.stream) this.cycleRecorders(now);
+  }
+
+  // PNG of the next frame
+  snapshot(): Promise<Blob | null> {
+    return new Promise(resolve => this.pendingSnapshots.push(resolve));
+  }
+
+  isBuffering() {
+    return this.stream !== null;
+  }
+
+  // Starts keeping the last few seconds; `onClip` gets a WebM after each release
+  startBuffer(onClip: (clip: Blob) => void) {
+    if (this.stream || !this.mimeType) return;
+    this.onClip = onClip;
+    this.stream = this.composite.captureStream(CLIP_FPS);
+    const now = performance.now();
+    this.recorders = [this.startRecorder(now), this.startRecorder(now + SEGMENT_MS)];
+  }
+
+  stopBuffer() {
+    this.recorders.forEach(r => {
+      r.keepUntil = null;
+      if (r.recorder.state !== 'inactive') r.recorder.stop();
+    });
+    this.recorders = [];
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.onClip = null;
+  }
+
+  // A release just happened: keep the recording that reaches furthest back
+  markRelease(now = performance.now()) {
+    if (!this.stream) return;
+    const kept = this.recorders.find(r => r.keepUntil !== null);
+    if (kept) {
+      kept.keepUntil = Math.min(now + POST_ROLL_MS, kept.startedAt + MAX_CLIP_MS);
+      return;
+    }
+    const oldest = this.recorders
+      .filter(r => r.recorder.state === 'recording' && r.startedAt <= now)
+      .sort((a, b) => a.startedAt - b.startedAt)[0];
+    if (oldest) oldest.keepUntil = now + POST_ROLL_MS;
+  }
+
+  // `startedAt` in the future delays the start, which staggers the pair
+  private startRecorder(startedAt: number): BufferRecorder {
+    const recorder = new MediaRecorder(this.stream!, { mimeType: this.mimeType!, videoBitsPerSecond: 5_000_000 });
+    const entry: BufferRecorder = { recorder, chunks: [], startedAt, keepUntil: null };
+    recorder.ondataavailable = e => {
+      if (e.data.size > 0) entry.chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      if (entry.keepUntil !== null) this.onClip?.(new Blob(entry.chunks, { type: this.mimeType! }));
+    };
+    return entry;
+  }
+
+  private cycleRecorders(now: number) {
+    this.recorders = this.recorders.map(r => {
+      if (r.recorder.state === 'inactive') return r; // still waiting out its stagger
+      if (r.keepUntil !== null) {
+        if (now < r.keepUntil) return r;
+        r.recorder.stop(); // hands the clip out
+        return this.startRecorder(now);
+      }
+      if (now - r.startedAt >= SEGMENT_MS * 2) {
+        r.recorder.stop(); // too old to be useful; start over
+        return this.startRecorder(now);
+      }
+      return r;
+    });
+    this.recorders.forEach(r => {
+      if (r.recorder.state === 'inactive' && now >= r.startedAt) r.recorder.start();
+    });
+  }
+
+  private compose(flowers: HTMLCanvasElement) {
+    const { composite, ctx } = this;
+    const { width, height } = flowers;
+    if (composite.width !== width || composite.height !== height) {
+      composite.width = width;
+      composite.height = height;
+    }
+
+    // Same stops as the CSS sky
+    if (this.sky) {
+      const gradient = ctx.createLinearGradient(0, 0, 0, height);
+      gradient.addColorStop(0, this.sky.sky.top);
+      gradient.addColorStop(0.6, this.sky.sky.middle);
+      gradient.addColorStop(1, this.sky.sky.bottom);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+    } else {
+      ctx.clearRect(0, 0, width, height);
+    }
+    if (this.meadow && this.meadow.width > 0) ctx.drawImage(this.meadow, 0, 0, width, height);
+    ctx.drawImage(flowers, 0, 0);
+
+    if (this.overlay) this.drawOverlay(width, height);
+  }
+
+  // Quiet corner caption: small, soft white, a little shadow to read over any sky
+  private drawOverlay(width: number, height: number) {
+    const ctx = this.ctx;
+    const size = Math.max(12, Math.round(Math.min(width, height) / 45));
+    const margin = size * 1.6;
+    ctx.save();
+    ctx.font = `300 ${size}px Georgia, serif`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'alphabetic';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+    ctx.shadowBlur = size * 0.4;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.75)';
+    this.overlay!.forEach((line, i, lines) => {
+      ctx.fillText(line, margin, height - margin - (lines.length - 1 - i) * size * 1.5);
+    });
+    ctx.restore();
+  }
+}
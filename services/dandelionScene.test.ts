@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { DandelionScene, MAX_SCENE_SEEDS } from './dandelionScene';
+import { SimInputs } from './dandelionSimulation';
+import { seededRandom } from './random';
+import { FlowerSpec } from '../types';
+
+const FLOWERS: FlowerSpec[] = [
+  { id: 'center', x: 0.5, scale: 1, theme: 'white' },
+  { id: 'left', x: 0.2, scale: 0.7, theme: 'lavender' }
+];
+const LAYOUT = { width: 800, height: 600, displayScale: 1 };
+
+// A breath that sweeps across both flowers, at an uneven frame rate
+const play = (scene: DandelionScene) => {
+  scene.setFlowers(FLOWERS);
+  const events = [];
+  for (let i = 0; i < 240; i++) {
+    const inputs: SimInputs = { sway: Math.sin(i / 30), blow: i > 60 && i < 150 ? 1 : 0, nod: 0, tilt: 0, blowThreshold: 0.75, releaseEnabled: true };
+    scene.advance(i % 3 === 0 ? 20 : 15, inputs, LAYOUT);
+    events.push(...scene.drainEvents().map(e => e.type === 'seedLanded' ? e.type : e));
+  }
+  return { events, seeds: scene.flowers.map(f => f.sim.drifting.map(p => [p.x, p.y, p.z])) };
+};
+
+describe('DandelionScene.reset', () => {
+  it('plays out the same way from the same seed', () => {
+    const first = new DandelionScene(Math.random, 200, 50);
+    const second = new DandelionScene(Math.random, 200, 50);
+    play(second); // whatever happened before the reset doesn't matter
+    first.reset(seededRandom(42));
+    second.reset(seededRandom(42));
+    expect(play(second)).toEqual(play(first));
+  });
+
+  it('plays out differently from another seed', () => {
+    const a = new DandelionScene(seededRandom(1), 200, 50);
+    const b = new DandelionScene(seededRandom(2), 200, 50);
+    expect(play(b).seeds).not.toEqual(play(a).seeds);
+  });
+});
+
+describe('DandelionScene seed budget', () => {
+  const totalSeeds = (scene: DandelionScene) => scene.flowers.reduce((sum, f) => sum + f.sim.particles.length, 0);
+
+  it('keeps the whole scene within MAX_SCENE_SEEDS, biggest flower first', () => {
+    const scene = new DandelionScene(seededRandom(1), 20000, 50);
+    scene.setFlowers([...FLOWERS, { id: 'right', x: 0.8, scale: 0.7, theme: 'pink' }]);
+    expect(totalSeeds(scene)).toBeLessThanOrEqual(MAX_SCENE_SEEDS + 1);
+    const [center, left] = scene.flowers.map(f => f.sim.particles.length);
+    expect(center).toBeGreaterThan(left);
+  });
+
+  it('leaves counts alone when they fit', () => {
+    const scene = new DandelionScene(seededRandom(1), 1500, 50);
+    scene.setFlowers(FLOWERS);
+    expect(scene.flowers.map(f => f.sim.particles.length)).toEqual([1500, Math.round(1500 * 0.49)]);
+  });
+
+  it('gives a lone flower the full tier count up to the cap', () => {
+    const scene = new DandelionScene(seededRandom(1), 20000, 50);
+    scene.setFlowers([FLOWERS[0]]);
+    expect(totalSeeds(scene)).toBe(20000);
+    scene.setFlowers(FLOWERS);
+    // The existing flower gives up seeds once its head is whole, which it is here
+    expect(totalSeeds(scene)).toBeLessThanOrEqual(MAX_SCENE_SEEDS + 1);
+  });
+});
@@ -0,0 +1,148 @@
+import { FlowerSpec } from '../types';
+import { DandelionSimulation, SimEvent, SimInputs, SPHERE_RADIUS } from './dandelionSimulation';
+
+// Several dandelions, one simulation each. Head position aims the breath: the flower
+// in line with the user's head gets the full breath, its neighbours only a trace of it.
+
+const REACH_WIDTH = 0.18; // Falloff of the breath across the scene, as a fraction of its width
+const PUFF_DECAY = 2;     // Per second; a puff fades out about as fast as a flick of the pointer
+// Seeds across every flower. They're all stepped on the CPU each tick, however they're drawn,
+// so this holds whatever the tier asks for. Stepping and projecting 24k seeds takes about 3 ms
+// a frame on one modest core with the heads full, and 8 ms with every seed in the air.
+export const MAX_SCENE_SEEDS = 24000;
+
+export interface SceneFlower {
+  spec: FlowerSpec;
+  sim: DandelionSimulation;
+  reach: number; // 0 to 1, share of the breath reaching this flower right now
+}
+
+export type SceneEvent = SimEvent & { flowerId: string };
+
+export interface SceneLayout {
+  width: number;
+  height: number;
+  displayScale: number;
+}
+
+// Sway (-1 to 1) to the point across the scene the user is facing, 0 to 1
+export const aimOf = (sway: number) => 0.5 + Math.max(-1, Math.min(1, sway)) * 0.5;
+
+export const breathReach = (aim: number, flowerX: number) => {
+  const d = (aim - flowerX) / REACH_WIDTH;
+  return Math.exp(-d * d);
+};
+
+const headArea = (specs: FlowerSpec[]) => specs.reduce((sum, spec) => sum + spec.scale * spec.scale, 0);
+
+export class DandelionScene {
+  flowers: SceneFlower[] = [];
+
+  private seedCount: number;
+  private sparkleCount: number;
+  private area = 0; // total head area of the flowers, in full-size heads
+  private events: SceneEvent[] = [];
+  private reducedMotion = false;
+  private puffs = new Map<string, number>(); // breath aimed at one flower only, by flower id
+
+  constructor(private random: () => number = Math.random, seedCount: number, sparkleCount: number) {
+    this.seedCount = seedCount;
+    this.sparkleCount = sparkleCount;
+  }
+
+  // Starts over with fresh flowers drawing on `random`. With a seeded one, the same inputs
+  // play out the same way, which is what makes trace replays repeat.
+  reset(random: () => number) {
+    this.random = random;
+    this.flowers = [];
+    this.events = [];
+    this.puffs.clear();
+  }
+
+  // Adds, updates and removes flowers to match `specs`. Existing flowers keep their seeds.
+  setFlowers(specs: FlowerSpec[]) {
+    // Adding or resizing a flower changes everyone's share of the budget
+    const area = headArea(specs);
+    const rebudget = area !== this.area;
+    this.area = area;
+    this.flowers = specs.map(spec => {
+      const existing = this.flowers.find(f => f.spec.id === spec.id);
+      if (existing) {
+        if (rebudget || existing.spec.scale !== spec.scale) existing.sim.setCounts(this.seedsFor(spec), this.sparkleCount);
+        existing.spec = spec;
+        return existing;
+      }
+      const sim = new DandelionSimulation(this.random, this.seedsFor(spec), this.sparkleCount);
+      sim.reducedMotion = this.reducedMotion;
+      return { spec, sim, reach: 0 };
+    });
+  }
+
+  setReducedMotion(reduced: boolean) {
+    this.reducedMotion = reduced;
+    this.flowers.forEach(f => { f.sim.reducedMotion = reduced; });
+  }
+
+  setCounts(seedCount: number, sparkleCount: number) {
+    this.seedCount = seedCount;
+    this.sparkleCount = sparkleCount;
+    this.flowers.forEach(f => f.sim.setCounts(this.seedsFor(f.spec), sparkleCount));
+  }
+
+  // Bigger flowers carry more seeds, in proportion to head area, all scaled down together
+  // when the scene would go over MAX_SCENE_SEEDS
+  private seedsFor(spec: FlowerSpec) {
+    const fit = Math.min(1, MAX_SCENE_SEEDS / (this.seedCount * Math.max(this.area, 1e-6)));
+    return Math.max(50, Math.round(this.seedCount * spec.scale * spec.scale * fit));
+  }
+
+  // A breath on one flower alone, e.g. from a swipe across its head. Fades by itself.
+  puff(flowerId: string, strength: number) {
+    this.puffs.set(flowerId, Math.max(this.puffs.get(flowerId) ?? 0, strength));
+  }
+
+  hold(flowerId: string, angle: number | null) {
+    this.flowers.find(f => f.spec.id === flowerId)?.sim.hold(angle);
+  }
+
+  advance(frameDt: number, inputs: SimInputs, layout: SceneLayout) {
+    const aim = aimOf(inputs.sway);
+    this.flowers.forEach(flower => {
+      const { spec, sim } = flower;
+      flower.reach = breathReach(aim, spec.x);
+      const puff = this.puffs.get(spec.id) ?? 0;
+      if (puff > 0) this.puffs.set(spec.id, Math.max(0, puff - PUFF_DECAY * frameDt / 1000));
+      sim.setLayout({
+        width: layout.width,
+        height: layout.height,
+        displayScale: layout.displayScale * spec.scale,
+        anchorX: spec.x,
+        stemScale: spec.scale
+      });
+      sim.seedColor = spec.theme;
+      sim.advance(frameDt, { ...inputs, blow: Math.max(inputs.blow * flower.reach, puff) });
+      sim.drainEvents().forEach(event => this.events.push({ ...event, flowerId: spec.id }));
+    });
+  }
+
+  // Returns and clears everything that happened since the last call, tagged with the flower
+  drainEvents(): SceneEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  // The flower whose head is under the point, if any. Slightly generous to make tapping easier.
+  hitTest(x: number, y: number, displayScale: number): string | null {
+    let best: string | null = null;
+    let bestDist = Infinity;
+    this.flowers.forEach(({ spec, sim }) => {
+      const dist = Math.hypot(x - sim.geometry.headX, y - sim.geometry.headY);
+      if (dist < SPHERE_RADIUS * 1.2 * displayScale * spec.scale && dist < bestDist) {
+        best = spec.id;
+        bestDist = dist;
+      }
+    });
+    return best;
+  }
+}
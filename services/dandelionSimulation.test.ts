@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { DandelionSimulation, SimEvent, SimInputs } from './dandelionSimulation';
+import { seededRandom } from './random';
+import { GameState } from '../types';
+
+const LAYOUT = { width: 800, height: 600, displayScale: 1, anchorX: 0.5, stemScale: 1 };
+const QUIET: SimInputs = { sway: 0, blow: 0, nod: 0, tilt: 0, blowThreshold: 0.75, releaseEnabled: true };
+
+const makeSim = (seed = 1) => {
+  const sim = new DandelionSimulation(seededRandom(seed));
+  sim.setLayout(LAYOUT);
+  return sim;
+};
+
+// Advances `seconds` of real time at `hz`, collecting every event along the way
+const run = (sim: DandelionSimulation, seconds: number, inputs: Partial<SimInputs> = {}, hz = 60) => {
+  const events: SimEvent[] = [];
+  const frames = Math.round(seconds * hz);
+  for (let i = 0; i < frames; i++) {
+    sim.advance(1000 / hz, { ...QUIET, ...inputs });
+    events.push(...sim.drainEvents());
+  }
+  return events;
+};
+
+const snapshot = (sim: DandelionSimulation) => ({
+  state: sim.state,
+  time: sim.time,
+  geometry: sim.geometry,
+  particles: sim.particles.map(p => [p.x, p.y, p.z, p.isAttached, p.alpha]),
+  sparkles: sim.sparkles.map(s => [s.x, s.y, s.life])
+});
+
+const attached = (sim: DandelionSimulation) => sim.particles.filter(p => p.isAttached).length / sim.particles.length;
+
+describe('DandelionSimulation', () => {
+  it('ends up in the same state at 60 Hz and 120 Hz', () => {
+    const at60 = makeSim();
+    const at120 = makeSim();
+    // Sway, then a strong blow, then quiet, so every part of the tick gets exercised
+    const script: [number, Partial<SimInputs>][] = [[1, { sway: 0.8, tilt: 0.2 }], [1, { blow: 1, nod: 0.5 }], [2, {}]];
+    script.forEach(([seconds, inputs]) => {
+      run(at60, seconds, inputs, 60);
+      run(at120, seconds, inputs, 120);
+    });
+    expect(at60.time).toBeCloseTo(4000, 6);
+    expect(snapshot(at120)).toEqual(snapshot(at60));
+  });
+
+  it('releases on a strong blow, then regrows to a full head', () => {
+    const sim = makeSim();
+    const blowEvents = run(sim, 2, { blow: 1 });
+    expect(blowEvents.filter(e => e.type === 'blowSuccess')).toHaveLength(1);
+    expect(sim.state).toBe(GameState.BLOWN);
+    expect(attached(sim)).toBeLessThan(1);
+
+    const quietEvents = run(sim, 10);
+    const states = quietEvents.flatMap(e => e.type === 'stateChange' ? [e.state] : []);
+    expect(states).toEqual([GameState.REGROWING, GameState.IDLE]);
+    expect(attached(sim)).toBe(1);
+  });
+
+  it("doesn't release while release is disabled or the breath is soft", () => {
+    const sim = makeSim();
+    expect(run(sim, 2, { blow: 1, releaseEnabled: false })).toEqual([]);
+    expect(run(sim, 2, { blow: 0.2 }).filter(e => e.type === 'blowSuccess')).toEqual([]);
+    expect(sim.state).toBe(GameState.IDLE);
+    expect(attached(sim)).toBe(1);
+  });
+
+  it('counts a happy sway for each swing from one side to the other', () => {
+    const sim = makeSim();
+    const events = [
+      ...run(sim, 3, { sway: -1 }),
+      ...run(sim, 3, { sway: 1 }),
+      ...run(sim, 3, { sway: -1 }),
+      ...run(sim, 3, { sway: 1 })
+    ];
+    // Left then right is one; the next left starts a new pair
+    expect(events.filter(e => e.type === 'happySway')).toHaveLength(2);
+  });
+
+  it('stays still with no input', () => {
+    const sim = makeSim();
+    const events = run(sim, 5);
+    expect(events.filter(e => e.type === 'happySway' || e.type === 'blowSuccess')).toEqual([]);
+    expect(Math.abs(sim.geometry.angle)).toBeLessThan(0.1);
+  });
+});
@@ -0,0 +1,546 @@
+import { Particle, GameState, Vector3 } from '../types';
+import { WindField, WIND_NEAR, WIND_FAR } from './windField';
+
+// Framework-free dandelion physics. Knows nothing about React or canvas:
+// feed it inputs through `advance` (real frame time) or `step` (one fixed tick) and read its state.
+
+// Fixed simulation tick. All per-tick constants below were tuned at 60 Hz.
+export const SIM_STEP = 1000 / 60;
+// Cap on catch-up ticks per frame, so a stalled tab doesn't spiral
+const MAX_STEPS_PER_FRAME = 5;
+
+// Visual Constants
+export const PARTICLE_COUNT = 1500;
+export const SPARKLE_COUNT = 600;
+export const SPHERE_RADIUS = 160;
+export const DEFAULT_BLOW_THRESHOLD = 0.75;
+
+// Seed Release Constants
+const LOOSEN_LEVEL = 0.25;     // Breath below this doesn't disturb the seeds at all
+const STRESS_RATE = 1.5;       // Stress per second at full breath for a fully exposed seed
+const STRONG_MULTIPLIER = 3;   // Blows past the release threshold strip seeds this much faster
+const STRESS_RELAX = 0.1;      // Stress shed per second between breaths
+const REGROW_DELAY = 4500;     // Quiet time after the last seed leaves before regrowth starts
+const REGROW_SECONDS = 1.5;    // Time to reattach a whole head while regrowing
+const GROW_IN_RATE = 0.01;     // Per-tick fade-in of a regrown seed
+
+// Drift Constants (released seeds)
+const AIR_DRAG = 0.04;         // Per-tick fraction of the gap to the wind speed a seed closes
+const GRAVITY = 0.03;          // Per-tick fall; with drag this settles near 0.75 px per tick
+const MAX_FLIGHT_MS = 40000;   // Seeds still aloft after this fade out
+const FADE_RATE = 0.02;        // Per-tick fade for seeds that leave the scene
+const GROUND_CAPACITY = 2000;  // Oldest landed seeds are cleared past this
+const REDUCED_MOTION_SPEED = 0.35; // Burst and sparkle speed scale in reduced motion
+
+// Motion Logic Constants
+const MOTION_DEADZONE = 0.15;
+const HOLD_STIFFNESS = 0.12;  // Spring toward a dragging finger, much stiffer than the sway spring
+export const MAX_BEND = 1.1;  // Furthest a dragged stem bends, in radians
+const SWAY_COUNT_THRESHOLD = 0.25;
+const TILT_INFLUENCE = 0.5;   // How much leaning the head bends the stem
+const NOD_STRETCH = 0.08;     // Stem length change at full nod
+
+export interface Sparkle {
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+  life: number;
+  maxLife: number;
+  size: number;
+  alpha: number;
+}
+
+export interface SimLayout {
+  width: number;
+  height: number;
+  displayScale: number;
+  anchorX: number; // where the stem is planted, 0 (left) to 1 (right)
+  stemScale: number; // 1 for the full half-screen stem
+}
+
+export interface SimInputs {
+  sway: number; // -1 to 1
+  blow: number; // 0 to 1
+  nod: number; // -1 to 1
+  tilt: number; // radians
+  blowThreshold: number;
+  releaseEnabled: boolean;
+}
+
+export type SimEvent =
+  | { type: 'stateChange'; state: GameState }
+  | { type: 'blowSuccess'; strength: number }
+  | { type: 'happySway' }
+  | { type: 'seedLanded'; seed: Particle };
+
+// Where the stem and head currently are, in layout pixels
+export interface FlowerGeometry {
+  baseX: number;
+  baseY: number;
+  midX: number;
+  midY: number;
+  headX: number;
+  headY: number;
+  angle: number;
+}
+
+export class DandelionSimulation {
+  particles: Particle[] = []; // the seed head; released slots stay empty until regrowth
+  drifting: Particle[] = []; // released seeds in flight. `life` counts their ms aloft
+  grounded: Particle[] = []; // seeds that have landed, oldest first
+  sparkles: Sparkle[] = [];
+
+  state: GameState = GameState.IDLE;
+  time = 0; // simulated ms
+  geometry: FlowerGeometry = { baseX: 0, baseY: 0, midX: 0, midY: 0, headX: 0, headY: 0, angle: 0 };
+  activity = 0; // 0 to 1, how much input is moving the flower right now
+  seedColor = ''; // stamped on seeds as they're released, so they remember the theme they left in
+  reducedMotion = false; // gentler bursts and dim, slow sparkles
+
+  private layout: SimLayout = { width: 0, height: 0, displayScale: 1, anchorX: 0.5, stemScale: 1 };
+  private sway = { angle: 0, velocity: 0 };
+  private nod = 0;
+  private heldAngle: number | null = null; // set while the head is being dragged
+  private lastDetachTime = 0;
+  private regrowBudget = 0; // fractional seeds owed to regrowth
+  private gustCounted = false; // whether the current breath has already counted as a release
+  private accumulator = 0;
+  private events: SimEvent[] = [];
+  private pendingSeedCount: number | null = null; // applied once the head is whole again
+  private readonly wind: WindField;
+  private readonly windSample: Vector3 = { x: 0, y: 0, z: 0 };
+
+  // Happy Count Logic State
+  private swayState: 'CENTER' | 'LEFT' | 'RIGHT' = 'CENTER';
+  private lastExtreme: 'LEFT' | 'RIGHT' | null = null;
+
+  constructor(
+    private readonly random: () => number = Math.random,
+    seedCount = PARTICLE_COUNT,
+    sparkleCount = SPARKLE_COUNT
+  ) {
+    this.wind = new WindField(random);
+    this.initParticles(seedCount);
+    this.initSparkles(sparkleCount);
+  }
+
+  // Changes detail for quality scaling. Sparkles resize immediately; the seed head is
+  // rebuilt only while fully attached, so a release in flight isn't cut short.
+  setCounts(seedCount: number, sparkleCount: number) {
+    if (sparkleCount !== this.sparkles.length) this.initSparkles(sparkleCount);
+    this.pendingSeedCount = seedCount !== this.particles.length ? seedCount : null;
+    this.applyPendingSeedCount();
+  }
+
+  private applyPendingSeedCount() {
+    if (this.pendingSeedCount === null || this.state !== GameState.IDLE) return;
+    this.initParticles(this.pendingSeedCount);
+    this.pendingSeedCount = null;
+  }
+
+  setLayout(layout: SimLayout) {
+    this.layout = layout;
+  }
+
+  // Drag the stem toward `angle` (radians from upright). Null lets go, and the sway spring
+  // swings it back from wherever it was left.
+  hold(angle: number | null) {
+    this.heldAngle = angle === null ? null : Math.max(-MAX_BEND, Math.min(MAX_BEND, angle));
+  }
+
+  // Runs as many fixed ticks as `frameDt` (ms of real time) covers, so behaviour
+  // is the same at 30, 60 or 144 Hz
+  advance(frameDt: number, inputs: SimInputs) {
+    this.accumulator = Math.min(this.accumulator + frameDt, SIM_STEP * MAX_STEPS_PER_FRAME);
+    while (this.accumulator >= SIM_STEP) {
+      this.step(SIM_STEP, inputs);
+      this.accumulator -= SIM_STEP;
+    }
+  }
+
+  // Returns and clears everything that happened since the last call
+  drainEvents(): SimEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  // One tick of `dt` ms. Constants are per 60 Hz tick, so they're scaled by dt / SIM_STEP.
+  step(dt: number, inputs: SimInputs) {
+    const f = dt / SIM_STEP;
+    this.time += dt;
+    const { width, height, displayScale, anchorX, stemScale } = this.layout;
+
+    const centerX = width * anchorX;
+
+    // --- Physics: Spring Sway ---
+    let activeTarget = inputs.sway;
+    if (Math.abs(activeTarget) < MOTION_DEADZONE) {
+      activeTarget = 0;
+    }
+
+    // Add gentle, micro-turbulence for "living" feel when idle (Wind)
+    // Combines two slow sine waves for non-monotonic movement
+    const idleWind = Math.sin(this.time * 0.0006) * 0.02 + Math.cos(this.time * 0.0017) * 0.015;
+
+    // Integrate idle wind into target for physics
+    // Leaning the head bends the stem the same way
+    const targetAngle = (activeTarget * 0.6) + inputs.tilt * TILT_INFLUENCE + idleWind;
+
+    const k = this.heldAngle !== null ? HOLD_STIFFNESS : 0.008;
+    const d = 0.95;
+
+    const force = ((this.heldAngle ?? targetAngle) - this.sway.angle) * k;
+    this.sway.velocity += force * f;
+    this.sway.velocity *= Math.pow(d, f);
+    this.sway.angle += this.sway.velocity * f;
+
+    const currentSway = this.sway.angle;
+
+    this.updateHappySway(currentSway);
+
+    // --- Blow State Machine ---
+    // Sparkles burst from where the head was drawn last tick
+    this.updateBlow(dt, inputs, this.geometry.headX, this.geometry.headY);
+
+    // --- Stem Geometry ---
+    // Nodding stretches and dips the stem a little
+    this.nod += (inputs.nod - this.nod) * (1 - Math.pow(0.95, f));
+    const stemLength = height * 0.5 * stemScale * (1 + this.nod * NOD_STRETCH);
+    const baseX = centerX;
+    const baseY = height;
+    const headX = baseX + Math.sin(currentSway) * stemLength;
+    const headY = baseY - Math.cos(currentSway) * stemLength;
+    this.geometry = {
+      baseX,
+      baseY,
+      midX: baseX + Math.sin(currentSway * 0.4) * (stemLength * 0.6),
+      midY: baseY - Math.cos(currentSway * 0.4) * (stemLength * 0.6),
+      headX,
+      headY,
+      angle: currentSway
+    };
+
+    // --- Sparkles ---
+    this.sparkles.forEach(s => {
+      if (s.life > 0) {
+        s.x += s.vx * f;
+        s.y += s.vy * f;
+        s.z += s.vz * f;
+        const damping = Math.pow(0.94, f);
+        s.vx *= damping;
+        s.vy *= damping;
+        s.vz *= damping;
+        s.vy -= 0.08 * f;
+        s.life -= f;
+      }
+    });
+
+    // --- Seeds ---
+    this.activity = Math.min(1, Math.abs(currentSway) * 3 + inputs.blow * 2);
+
+    // Active Breath: Reacts to input only
+    const breath = Math.sin(this.time * 0.0015) * 5 * this.activity;
+
+    const cosR = Math.cos(currentSway);
+    const sinR = Math.sin(currentSway);
+
+    this.updateDrift(dt, inputs);
+
+    // A plain loop without per-seed allocations: this runs for every seed on every tick
+    const particles = this.particles;
+    const grow = GROW_IN_RATE * f;
+    for (let i = 0; i < particles.length; i++) {
+      const p = particles[i];
+      if (!p.isAttached) continue;
+      // Position on the sphere (scaled for the screen) pushed out along its direction by the
+      // breath, then turned with the head
+      const scaledOrigX = p.origX * displayScale;
+      const scaledOrigY = p.origY * displayScale;
+      const push = breath / Math.sqrt(scaledOrigX * scaledOrigX + scaledOrigY * scaledOrigY);
+      const localX = scaledOrigX + p.origX * push;
+      const localY = scaledOrigY + p.origY * push;
+
+      p.x = headX + localX * cosR - localY * sinR;
+      p.y = headY + localX * sinR + localY * cosR;
+      p.z = p.origZ * displayScale; // Z scales too, for correct perspective
+
+      // Freshly regrown seeds fade in
+      if (p.life < 1) {
+        p.life = Math.min(1, p.life + grow);
+        p.alpha = Math.min(1, p.alpha + grow);
+      }
+    }
+  }
+
+  // Released seeds ride the wind field, fall slowly under their pappus and come to rest on
+  // the ground (the stem's base line). Seeds that blow out of the scene fade instead.
+  private updateDrift(dt: number, inputs: SimInputs) {
+    const f = dt / SIM_STEP;
+    const { width, height } = this.layout;
+    const ground = height;
+
+    this.wind.update(this.time, f, width, height, {
+      breath: inputs.blow,
+      sway: Math.abs(inputs.sway) < MOTION_DEADZONE ? 0 : inputs.sway
+    });
+
+    const follow = 1 - Math.pow(1 - AIR_DRAG, f);
+    const wind = this.windSample;
+    let kept = 0;
+    for (const p of this.drifting) {
+      this.wind.sample(p.x, p.y, p.z, wind);
+      p.vx += (wind.x - p.vx) * follow;
+      p.vy += (wind.y - p.vy) * follow + GRAVITY * f;
+      p.vz += (wind.z - p.vz) * follow;
+      p.x += p.vx * f;
+      p.y += p.vy * f;
+      p.z += p.vz * f;
+      p.life += dt;
+
+      if (p.y >= ground) {
+        this.land(p, ground);
+        continue;
+      }
+
+      const gone = p.x < -width * 0.5 || p.x > width * 1.5 || p.y < -height || p.z < WIND_NEAR || p.z > WIND_FAR;
+      if (gone || p.life > MAX_FLIGHT_MS) {
+        p.alpha -= FADE_RATE * f;
+        if (p.alpha <= 0) continue;
+      }
+      this.drifting[kept++] = p;
+    }
+    this.drifting.length = kept;
+  }
+
+  private land(p: Particle, ground: number) {
+    p.y = ground;
+    p.vx = 0;
+    p.vy = 0;
+    p.vz = 0;
+    this.grounded.push(p);
+    if (this.grounded.length > GROUND_CAPACITY) this.grounded.shift();
+    this.events.push({ type: 'seedLanded', seed: p });
+  }
+
+  private setState(state: GameState) {
+    this.state = state;
+    this.events.push({ type: 'stateChange', state });
+    this.applyPendingSeedCount();
+  }
+
+  private updateHappySway(currentSway: number) {
+    if (currentSway < -SWAY_COUNT_THRESHOLD) {
+      if (this.swayState !== 'LEFT') {
+         this.swayState = 'LEFT';
+         if (this.lastExtreme === 'RIGHT') {
+           this.events.push({ type: 'happySway' });
+           this.lastExtreme = null;
+         } else {
+           this.lastExtreme = 'LEFT';
+         }
+      }
+    } else if (currentSway > SWAY_COUNT_THRESHOLD) {
+      if (this.swayState !== 'RIGHT') {
+         this.swayState = 'RIGHT';
+         if (this.lastExtreme === 'LEFT') {
+           this.events.push({ type: 'happySway' });
+           this.lastExtreme = null;
+         } else {
+           this.lastExtreme = 'RIGHT';
+         }
+      }
+    } else if (Math.abs(currentSway) < 0.1) {
+      this.swayState = 'CENTER';
+    }
+  }
+
+  // Breath stresses the attached seeds in proportion to strength, duration and exposure;
+  // each lets go once its stress passes its grip. Regrowth starts after a quiet spell.
+  private updateBlow(dt: number, inputs: SimInputs, sparkleX: number, sparkleY: number) {
+    const seconds = dt / 1000;
+    const blowing = inputs.releaseEnabled && inputs.blow > LOOSEN_LEVEL;
+    let attached = 0;
+    let detached = 0;
+
+    if (blowing) {
+      const strong = inputs.blow > inputs.blowThreshold;
+      const stress = (inputs.blow - LOOSEN_LEVEL) * STRESS_RATE * (strong ? STRONG_MULTIPLIER : 1) * seconds;
+
+      this.particles.forEach(p => {
+        if (!p.isAttached) return;
+        p.stress += stress * p.exposure;
+        if (p.stress > p.grip) {
+          this.detach(p, inputs.blow);
+          detached++;
+        } else {
+          attached++;
+        }
+      });
+
+      // A strong breath counts as one release, however long it lasts
+      if (strong && !this.gustCounted && (detached > 0 || attached > 0)) {
+        this.gustCounted = true;
+        this.events.push({ type: 'blowSuccess', strength: inputs.blow });
+        this.triggerSparkles(sparkleX, sparkleY, inputs.blow);
+      }
+    } else {
+      this.gustCounted = false;
+      this.particles.forEach(p => {
+        if (p.isAttached) p.stress = Math.max(0, p.stress - STRESS_RELAX * seconds);
+      });
+    }
+
+    if (detached > 0) {
+      this.lastDetachTime = this.time;
+      if (this.state !== GameState.BLOWN) this.setState(GameState.BLOWN);
+    }
+
+    if (this.state === GameState.BLOWN && !blowing && this.time - this.lastDetachTime > REGROW_DELAY) {
+      this.regrowBudget = 0;
+      this.setState(GameState.REGROWING);
+    }
+
+    if (this.state === GameState.REGROWING) {
+      this.regrowBudget += (this.particles.length / REGROW_SECONDS) * seconds;
+      let missing = 0;
+      let growing = false;
+      this.particles.forEach(p => {
+        if (p.isAttached) {
+          if (p.life < 1) growing = true;
+          return;
+        }
+        if (this.regrowBudget >= 1) {
+          this.regrow(p);
+          this.regrowBudget--;
+          growing = true;
+        } else {
+          missing++;
+        }
+      });
+      if (missing === 0 && !growing) this.setState(GameState.IDLE);
+    }
+  }
+
+  // The seed flies off as a copy; its slot on the head stays empty until regrowth,
+  // so regrowing never pulls a seed out of the air
+  private detach(p: Particle, strength: number) {
+    // Written out rather than spread: spread copies end up with a slower shape in the engine,
+    // where every position update allocates, and every drifting seed is updated each tick
+    const seed: Particle = {
+      x: p.x, y: p.y, z: p.z,
+      vx: 0, vy: 0, vz: 0,
+      origX: p.origX, origY: p.origY, origZ: p.origZ,
+      life: 0, maxLife: p.maxLife, alpha: p.alpha, size: p.size,
+      isAttached: false, color: this.seedColor,
+      grip: p.grip, exposure: p.exposure, stress: 0
+    };
+    const radialX = p.origX / SPHERE_RADIUS;
+    const radialY = p.origY / SPHERE_RADIUS;
+    const radialZ = p.origZ / SPHERE_RADIUS;
+
+    // Burst outward from the head; the wind takes over from there
+    const calm = this.reducedMotion ? REDUCED_MOTION_SPEED : 1;
+    const explosionForce = (5 + this.random() * 10) * (0.5 + strength * 0.5) * calm;
+    const jitter = 5 * calm;
+
+    seed.vx = radialX * explosionForce * 0.5 + (this.random() - 0.5) * jitter;
+    seed.vy = radialY * explosionForce * 0.5 + (this.random() - 0.5) * jitter;
+    seed.vz = radialZ * explosionForce * 0.5 + (this.random() - 0.5) * jitter;
+    this.drifting.push(seed);
+
+    p.isAttached = false;
+    p.stress = 0;
+    p.alpha = 0;
+  }
+
+  private regrow(p: Particle) {
+    p.x = p.origX; p.y = p.origY; p.z = p.origZ;
+    p.vx = 0; p.vy = 0; p.vz = 0;
+    p.isAttached = true;
+    p.alpha = 0;
+    p.life = 0;
+    p.stress = 0;
+  }
+
+  // How many seeds are still on the head, 0 to 1
+  getAttachedFraction(): number {
+    return this.particles.filter(p => p.isAttached).length / this.particles.length;
+  }
+
+  private triggerSparkles(centerX: number, centerY: number, strength: number) {
+    this.sparkles.forEach(s => {
+      const theta = this.random() * Math.PI * 2;
+      const r = this.random() * SPHERE_RADIUS * 0.8;
+      s.x = centerX + Math.cos(theta) * r;
+      s.y = centerY + Math.sin(theta) * r;
+      s.z = (this.random() - 0.5) * SPHERE_RADIUS;
+
+      const speed = (4 + this.random() * 12 * strength) * (this.reducedMotion ? REDUCED_MOTION_SPEED : 1);
+      const angle = this.random() * Math.PI * 2;
+
+      s.vx = Math.cos(angle) * speed;
+      s.vy = Math.sin(angle) * speed;
+      s.vz = (this.random() - 0.5) * speed * 2;
+
+      s.life = 100;
+      s.maxLife = 50 + this.random() * 100;
+      // No flash in reduced motion, just a faint glimmer
+      s.alpha = this.reducedMotion ? 0.35 : 1;
+      s.size = 0.5 + this.random() * 3.0;
+    });
+  }
+
+  private initParticles(count: number) {
+    const phi = Math.PI * (3 - Math.sqrt(5));
+    this.particles = [];
+
+    for (let i = 0; i < count; i++) {
+      const y = 1 - (i / (count - 1)) * 2;
+      const radius = Math.sqrt(1 - y * y);
+      const theta = phi * i;
+
+      const x = Math.cos(theta) * radius;
+      const z = Math.sin(theta) * radius;
+
+      this.particles.push({
+        x: x * SPHERE_RADIUS,
+        y: y * SPHERE_RADIUS,
+        z: z * SPHERE_RADIUS,
+        origX: x * SPHERE_RADIUS,
+        origY: y * SPHERE_RADIUS,
+        origZ: z * SPHERE_RADIUS,
+        vx: 0,
+        vy: 0,
+        vz: 0,
+        life: 1,
+        maxLife: 100 + this.random() * 100,
+        alpha: 0.4 + this.random() * 0.6,
+        size: 0.8 + this.random() * 1.2,
+        isAttached: true,
+        color: '',
+        grip: 0.2 + this.random() * 0.8,
+        // Seeds facing the viewer (negative z) catch the breath first
+        exposure: 0.35 + 0.65 * Math.max(0, -z),
+        stress: 0
+      });
+    }
+  }
+
+  private initSparkles(count: number) {
+    this.sparkles = [];
+    for (let i = 0; i < count; i++) {
+      this.sparkles.push({
+        x: 0, y: 0, z: 0,
+        vx: 0, vy: 0, vz: 0,
+        life: 0,
+        maxLife: 0,
+        size: this.random() * 2,
+        alpha: 0
+      });
+    }
+  }
+}
@@ -0,0 +1,57 @@
+// Which microphone and camera to use. The choice is remembered by device ID; IDs are
+// stable per site, so it survives reloads as long as the device is plugged in.
+
+const STORAGE_KEY = 'breathing-dandelion.devices';
+
+export type DeviceKind = 'microphone' | 'camera';
+
+export interface DeviceChoice {
+  microphone: string | null; // null uses the system default
+  camera: string | null;
+}
+
+export interface DeviceOption {
+  id: string;
+  label: string; // empty until a permission for that kind has been granted
+}
+
+const DEFAULT_CHOICE: DeviceChoice = { microphone: null, camera: null };
+
+const MEDIA_KIND: Record<DeviceKind, MediaDeviceKind> = {
+  microphone: 'audioinput',
+  camera: 'videoinput'
+};
+
+export const loadDeviceChoice = (): DeviceChoice => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_CHOICE, ...JSON.parse(raw) } : DEFAULT_CHOICE;
+  } catch {
+    return DEFAULT_CHOICE;
+  }
+};
+
+export const saveDeviceChoice = (choice: DeviceChoice) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(choice));
+  } catch (error) {
+    console.error("Error saving device choice:", error);
+  }
+};
+
+// The pseudo-devices "default" and "communications" are left out; null already means default
+export const listDevices = async (kind: DeviceKind): Promise<DeviceOption[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(d => d.kind === MEDIA_KIND[kind] && d.deviceId && d.deviceId !== 'default' && d.deviceId !== 'communications')
+    .map(d => ({ id: d.deviceId, label: d.label }));
+};
+
+// Calls back whenever a device is plugged in or removed. Returns the unsubscribe.
+export const watchDevices = (callback: () => void) => {
+  const media = navigator.mediaDevices;
+  if (!media?.addEventListener) return () => {};
+  media.addEventListener('devicechange', callback);
+  return () => media.removeEventListener('devicechange', callback);
+};
@@ -0,0 +1,145 @@
+import { DandelionScene, SceneFlower } from './dandelionScene';
+import { SPHERE_RADIUS } from './dandelionSimulation';
+
+// Direct manipulation of the flowers with mouse, touch or pen. Each pointer is tracked on
+// its own, so two fingers can hold two flowers at once.
+//  - press and drag a head to bend its stem; let go and it swings back
+//  - swipe fast across a head to blow on it, faster is stronger
+//  - tap a head to change its colour, hold it to pick a theme
+
+const DRAG_SLOP = 8;            // px a press can wander before it becomes a drag
+const LONG_PRESS_MS = 600;
+const SWIPE_MIN_SPEED = 0.8;    // px per ms; slower strokes across a head don't count
+const SWIPE_FULL_SPEED = 2.5;   // px per ms for a full-strength blow
+const HIT_SLACK = 1.2;          // Heads are a little easier to hit than they look
+
+export interface GestureCallbacks {
+  onTap: (flowerId: string) => void;
+  onLongPress: (flowerId: string) => void;
+}
+
+interface TrackedPointer {
+  flowerId: string | null; // the head it went down on, if any
+  mode: 'press' | 'drag' | 'swipe' | 'done';
+  startX: number;
+  startY: number;
+  lastX: number;
+  lastY: number;
+  lastTime: number;
+  downTime: number;
+  grabOffset: number; // stem angle under the pointer minus the stem's angle, at grab time
+  swiped: Set<string>; // flowers this stroke has already blown on
+}
+
+// Distance from (px, py) to the segment (ax, ay)-(bx, by)
+const distanceToSegment = (px: number, py: number, ax: number, ay: number, bx: number, by: number) => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq)) : 0;
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+export class FlowerGestures {
+  private pointers = new Map<number, TrackedPointer>();
+
+  constructor(private readonly scene: DandelionScene, private readonly callbacks: GestureCallbacks) {}
+
+  // Returns true when the pointer landed on a head and the gesture is ours, so the
+  // caller can keep it from also driving the pointer input source.
+  down(pointerId: number, x: number, y: number, time: number, displayScale: number): boolean {
+    const flowerId = this.scene.hitTest(x, y, displayScale);
+    const flower = flowerId ? this.findFlower(flowerId) : null;
+    // One pointer per flower; a second finger on a held head just strokes past it
+    const taken = flowerId !== null && [...this.pointers.values()].some(p => p.flowerId === flowerId);
+    const owns = !!flower && !taken;
+
+    this.pointers.set(pointerId, {
+      flowerId: owns ? flowerId : null,
+      mode: owns ? 'press' : 'swipe',
+      startX: x,
+      startY: y,
+      lastX: x,
+      lastY: y,
+      lastTime: time,
+      downTime: time,
+      grabOffset: owns ? this.angleAt(flower!, x, y) - flower!.sim.geometry.angle : 0,
+      swiped: new Set(flowerId ? [flowerId] : [])
+    });
+    return owns;
+  }
+
+  move(pointerId: number, x: number, y: number, time: number, displayScale: number) {
+    const pointer = this.pointers.get(pointerId);
+    if (!pointer) return;
+
+    if (pointer.mode === 'press' && Math.hypot(x - pointer.startX, y - pointer.startY) > DRAG_SLOP) {
+      pointer.mode = 'drag';
+    }
+    if (pointer.mode === 'drag') {
+      const flower = this.findFlower(pointer.flowerId!);
+      if (flower) this.scene.hold(flower.spec.id, this.angleAt(flower, x, y) - pointer.grabOffset);
+    } else if (pointer.mode === 'swipe') {
+      this.checkSwipe(pointer, x, y, time, displayScale);
+    }
+
+    pointer.lastX = x;
+    pointer.lastY = y;
+    pointer.lastTime = time;
+  }
+
+  up(pointerId: number) {
+    const pointer = this.pointers.get(pointerId);
+    if (!pointer) return;
+    if (pointer.mode === 'press') this.callbacks.onTap(pointer.flowerId!);
+    this.release(pointerId);
+  }
+
+  // The browser took the pointer away (scrolling, a system gesture): no tap, just let go
+  cancel(pointerId: number) {
+    this.release(pointerId);
+  }
+
+  // Per frame, for long presses that haven't moved
+  update(time: number) {
+    this.pointers.forEach(pointer => {
+      if (pointer.mode === 'press' && time - pointer.downTime >= LONG_PRESS_MS) {
+        pointer.mode = 'done';
+        this.callbacks.onLongPress(pointer.flowerId!);
+      }
+    });
+  }
+
+  private release(pointerId: number) {
+    const pointer = this.pointers.get(pointerId);
+    if (pointer?.mode === 'drag') this.scene.hold(pointer.flowerId!, null);
+    this.pointers.delete(pointerId);
+  }
+
+  // A fast stroke whose latest segment passes over a head blows on that head, once per stroke
+  private checkSwipe(pointer: TrackedPointer, x: number, y: number, time: number, displayScale: number) {
+    const speed = Math.hypot(x - pointer.lastX, y - pointer.lastY) / Math.max(1, time - pointer.lastTime);
+    if (speed < SWIPE_MIN_SPEED) return;
+    const strength = Math.min(1, speed / SWIPE_FULL_SPEED);
+
+    this.scene.flowers.forEach(({ spec, sim }) => {
+      if (pointer.swiped.has(spec.id)) return;
+      const radius = SPHERE_RADIUS * HIT_SLACK * displayScale * spec.scale;
+      const { headX, headY } = sim.geometry;
+      if (distanceToSegment(headX, headY, pointer.lastX, pointer.lastY, x, y) < radius) {
+        pointer.swiped.add(spec.id);
+        this.scene.puff(spec.id, strength);
+      }
+    });
+  }
+
+  private findFlower(flowerId: string) {
+    return this.scene.flowers.find(f => f.spec.id === flowerId) ?? null;
+  }
+
+  // Stem angle (radians from upright, positive to the right) that would put the head under the point
+  private angleAt(flower: SceneFlower, x: number, y: number) {
+    const { baseX, baseY } = flower.sim.geometry;
+    return Math.atan2(x - baseX, baseY - y);
+  }
+}
@@ -0,0 +1,150 @@
+import { HeadPose } from '../types';
+
+// Frames are downsampled to this size before tracking
+export const TRACK_WIDTH = 64;
+export const TRACK_HEIGHT = 48;
+
+// Tracking Constants
+const SEARCH_RADIUS = 14;      // Mean-shift window radius in downsampled pixels
+const MEAN_SHIFT_STEPS = 4;
+const MIN_SKIN_PIXELS = 25;    // Fewer skin pixels than this in the window means the head is lost
+const FULL_SKIN_PIXELS = 140;  // Roughly a face filling the window at arm's length
+const MOTION_WEIGHT = 2;       // Skin pixels that also moved count extra, favouring the live subject
+const POSITION_SMOOTHING = 0.25;
+const TILT_SMOOTHING = 0.15;
+const CONFIDENCE_DECAY = 0.9;  // Per-frame falloff while lost
+const MAX_TILT = Math.PI / 4;
+
+// Chroma skin classifier (YCbCr), tolerant to brightness changes
+const isSkin = (r: number, g: number, b: number) => {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cr > 135 && cr < 175 && cb > 80 && cb < 130 && r > 50;
+};
+
+// Pure pixel work, no DOM: runs in the motion worker, or on the main thread as a fallback.
+// Combines a skin-tone mask with frame differencing and follows the head with mean-shift,
+// so a still head keeps its position and a hand waving elsewhere is ignored.
+export class HeadTracker {
+  private prevFrame: Uint8ClampedArray | null = null;
+
+  // Per-pixel weights reused between frames
+  private readonly weights = new Float32Array(TRACK_WIDTH * TRACK_HEIGHT);
+
+  // Tracker state in downsampled pixel coordinates
+  private trackX = 32;
+  private trackY = 18;
+  private pose: HeadPose = { x: 0, y: 0, tilt: 0, confidence: 0 };
+
+  // `data` is one TRACK_WIDTH x TRACK_HEIGHT RGBA frame. Call once per frame.
+  process(data: Uint8ClampedArray): HeadPose {
+    const width = TRACK_WIDTH;
+    const prevData = this.prevFrame;
+    const threshold = 20; // Sensitivity for pixel change
+
+    // 1. Weight map: skin pixels, boosted where something moved
+    let totalSkin = 0;
+    let sumX = 0;
+    let sumY = 0;
+    for (let i = 0; i < data.length; i += 4) {
+      const p = i / 4;
+      if (!isSkin(data[i], data[i + 1], data[i + 2])) {
+        this.weights[p] = 0;
+        continue;
+      }
+
+      let weight = 1;
+      if (prevData) {
+        const diff = Math.abs(data[i] - prevData[i]) + Math.abs(data[i + 1] - prevData[i + 1]) + Math.abs(data[i + 2] - prevData[i + 2]);
+        if (diff > threshold * 3) weight += MOTION_WEIGHT;
+      }
+      this.weights[p] = weight;
+      totalSkin++;
+      sumX += (p % width) * weight;
+      sumY += Math.floor(p / width) * weight;
+    }
+    this.prevFrame = data;
+
+    // 2. Re-acquire from the global skin centroid when we've lost the subject
+    if (this.pose.confidence < 0.2 && totalSkin >= MIN_SKIN_PIXELS) {
+      const total = this.weightSum();
+      this.trackX = sumX / total;
+      this.trackY = sumY / total;
+    }
+
+    // 3. Mean-shift toward the densest skin region near the last position
+    let m = this.windowMoments(this.trackX, this.trackY);
+    for (let step = 1; step < MEAN_SHIFT_STEPS && m.w > 0; step++) {
+      this.trackX = m.x;
+      this.trackY = m.y;
+      m = this.windowMoments(this.trackX, this.trackY);
+    }
+
+    // 4. Confidence and temporal filtering
+    if (m.count < MIN_SKIN_PIXELS) {
+      this.pose = { ...this.pose, confidence: this.pose.confidence * CONFIDENCE_DECAY };
+      return this.pose;
+    }
+
+    this.trackX = m.x;
+    this.trackY = m.y;
+    const confidence = Math.min(1, (m.count - MIN_SKIN_PIXELS) / (FULL_SKIN_PIXELS - MIN_SKIN_PIXELS));
+
+    // Orientation of the blob's major axis from its second moments; upright face = vertical axis
+    const covXX = m.xx - m.x * m.x;
+    const covYY = m.yy - m.y * m.y;
+    const covXY = m.xy - m.x * m.y;
+    const axisAngle = 0.5 * Math.atan2(2 * covXY, covXX - covYY); // 0 = horizontal
+    let rawTilt = axisAngle - Math.sign(axisAngle || 1) * Math.PI / 2;
+    // Mirrored like x; ignore the meaningless angle of a round blob
+    rawTilt = Math.abs(covXX - covYY) + Math.abs(covXY) < 1 ? 0 : Math.max(-MAX_TILT, Math.min(MAX_TILT, -rawTilt));
+
+    // Normalize to -1 to 1 (Mirrored because it's a selfie camera usually)
+    const rawX = -1 * ((this.trackX - (TRACK_WIDTH / 2)) / (TRACK_WIDTH / 2));
+    const rawY = -1 * ((this.trackY - (TRACK_HEIGHT / 2)) / (TRACK_HEIGHT / 2));
+
+    this.pose = {
+      x: this.pose.x + (rawX - this.pose.x) * POSITION_SMOOTHING,
+      y: this.pose.y + (rawY - this.pose.y) * POSITION_SMOOTHING,
+      tilt: this.pose.tilt + (rawTilt - this.pose.tilt) * TILT_SMOOTHING,
+      confidence: this.pose.confidence + (confidence - this.pose.confidence) * POSITION_SMOOTHING
+    };
+    return this.pose;
+  }
+
+  private weightSum(): number {
+    let total = 0;
+    for (let i = 0; i < this.weights.length; i++) total += this.weights[i];
+    return total;
+  }
+
+  // Weighted centroid and second moments of the skin map inside the search window
+  private windowMoments(cx: number, cy: number) {
+    let w = 0, x = 0, y = 0, xx = 0, yy = 0, xy = 0, count = 0;
+    const r2 = SEARCH_RADIUS * SEARCH_RADIUS;
+    const x0 = Math.max(0, Math.floor(cx - SEARCH_RADIUS));
+    const x1 = Math.min(TRACK_WIDTH - 1, Math.ceil(cx + SEARCH_RADIUS));
+    const y0 = Math.max(0, Math.floor(cy - SEARCH_RADIUS));
+    const y1 = Math.min(TRACK_HEIGHT - 1, Math.ceil(cy + SEARCH_RADIUS));
+
+    for (let py = y0; py <= y1; py++) {
+      for (let px = x0; px <= x1; px++) {
+        const weight = this.weights[py * TRACK_WIDTH + px];
+        if (weight === 0) continue;
+        const dx = px - cx;
+        const dy = py - cy;
+        if (dx * dx + dy * dy > r2) continue;
+        count++;
+        w += weight;
+        x += px * weight;
+        y += py * weight;
+        xx += px * px * weight;
+        yy += py * py * weight;
+        xy += px * py * weight;
+      }
+    }
+
+    if (w === 0) return { w, count, x: cx, y: cy, xx: 0, yy: 0, xy: 0 };
+    return { w, count, x: x / w, y: y / w, xx: xx / w, yy: yy / w, xy: xy / w };
+  }
+}
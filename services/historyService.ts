@@ -0,0 +1,97 @@
+import { SessionRecord, PeriodTotals } from '../types';
+
+const STORAGE_KEY = 'breathing-dandelion.sessions';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar date, so "today" follows the user's clock rather than UTC
+export const dayKey = (time: number): string => {
+  const d = new Date(time);
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${day}`;
+};
+
+// Weeks start on Monday
+export const weekKey = (time: number): string => {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  const offset = (d.getDay() + 6) % 7;
+  d.setDate(d.getDate() - offset);
+  return dayKey(d.getTime());
+};
+
+const addTo = (totals: Map<string, PeriodTotals>, key: string, s: SessionRecord) => {
+  const entry = totals.get(key) ?? { key, sessions: 0, releases: 0, happySways: 0, minutes: 0 };
+  entry.sessions++;
+  entry.releases += s.releases;
+  entry.happySways += s.happySways;
+  entry.minutes += (s.endTime - s.startTime) / 60000;
+  totals.set(key, entry);
+};
+
+// Totals for the last `count` days (or weeks), oldest first, including empty periods
+export const summarize = (sessions: SessionRecord[], period: 'day' | 'week', count: number, now = Date.now()): PeriodTotals[] => {
+  const keyOf = period === 'day' ? dayKey : weekKey;
+  const step = period === 'day' ? DAY_MS : 7 * DAY_MS;
+
+  const totals = new Map<string, PeriodTotals>();
+  sessions.forEach(s => addTo(totals, keyOf(s.startTime), s));
+
+  const result: PeriodTotals[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const key = keyOf(now - i * step);
+    result.push(totals.get(key) ?? { key, sessions: 0, releases: 0, happySways: 0, minutes: 0 });
+  }
+  return result;
+};
+
+// Consecutive days with at least one session. The current streak survives until
+// the end of today, so a streak from yesterday still counts before today's session.
+export const computeStreaks = (sessions: SessionRecord[], now = Date.now()): { current: number; best: number } => {
+  const days = new Set(sessions.map(s => dayKey(s.startTime)));
+
+  let current = 0;
+  let cursor = days.has(dayKey(now)) ? now : now - DAY_MS;
+  while (days.has(dayKey(cursor))) {
+    current++;
+    cursor -= DAY_MS;
+  }
+
+  let best = 0;
+  let run = 0;
+  let prev: number | null = null;
+  [...days].sort().forEach(key => {
+    const [y, m, d] = key.split('-').map(Number);
+    const time = new Date(y, m - 1, d).getTime();
+    // Round to absorb daylight-saving shifts
+    run = prev !== null && Math.round((time - prev) / DAY_MS) === 1 ? run + 1 : 1;
+    best = Math.max(best, run);
+    prev = time;
+  });
+
+  return { current, best: Math.max(best, current) };
+};
+
+export class HistoryService {
+  load(): SessionRecord[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.error("Error reading session history:", error);
+      return [];
+    }
+  }
+
+  // Inserts or replaces the session with the same id, returning the updated list
+  saveSession(record: SessionRecord): SessionRecord[] {
+    const sessions = this.load().filter(s => s.id !== record.id);
+    sessions.push(record);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+    } catch (error) {
+      console.error("Error saving session history:", error);
+    }
+    return sessions;
+  }
+}
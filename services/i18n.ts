@@ -0,0 +1,60 @@
+import { en, enPhrases } from '../locales/en';
+import { zhCN, zhCNPhrases } from '../locales/zhCN';
+
+// Message catalogs and locale detection. English is the reference catalog: its keys are the
+// message keys, and the other locales are type-checked against it.
+
+const STORAGE_KEY = 'breathing-dandelion.locale';
+
+export type Locale = 'en' | 'zh-CN';
+export type MessageKey = keyof typeof en;
+export type Message = string | { one: string; other: string };
+export type Messages = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'zh-CN', label: '简体中文' }
+];
+
+const CATALOGS: Record<Locale, Messages> = { en, 'zh-CN': zhCN };
+const PHRASES: Record<Locale, string[][]> = { en: enPhrases, 'zh-CN': zhCNPhrases };
+
+// Saved choice first, then the browser's preferred languages
+export const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved && saved in CATALOGS) return saved as Locale;
+  } catch {
+    // Fall through to the browser languages
+  }
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const language of languages) {
+    const lower = language.toLowerCase();
+    if (lower.startsWith('zh')) return 'zh-CN';
+    if (lower.startsWith('en')) return 'en';
+  }
+  return 'en';
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Still switches for this visit
+  }
+};
+
+// Replaces {name} placeholders; unknown ones are left as they are
+export const format = (template: string, params?: MessageParams) =>
+  params ? template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : template;
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const message = CATALOGS[locale][key] ?? en[key];
+  if (typeof message === 'string') return format(message, params);
+  const count = Number(params?.count ?? 0);
+  const form = new Intl.PluralRules(locale).select(count) === 'one' ? message.one : message.other;
+  return format(form, params);
+};
+
+export const calmingPhrases = (locale: Locale): string[][] => PHRASES[locale];
@@ -0,0 +1,399 @@
+import { AudioService } from './audioService';
+import { MotionService } from './motionService';
+import { InputSignal, InputSourceId, SensorStatus } from '../types';
+import { MessageKey } from './i18n';
+import { DeviceKind, listDevices, watchDevices } from './deviceService';
+
+// Anything that can drive the dandelion: produces sway and blow signals each frame
+export interface InputSource {
+  readonly id: InputSourceId;
+  readonly swayHint?: MessageKey;
+  readonly blowHint?: MessageKey;
+  start(): Promise<void>;
+  read(): InputSignal;
+  stop(): void;
+}
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+// Eases `current` toward `target` at `rate` units per second
+const approach = (current: number, target: number, rate: number, dt: number) => {
+  const step = rate * dt;
+  return Math.abs(target - current) <= step ? target : current + Math.sign(target - current) * step;
+};
+
+// Delays between attempts to get a device back after it went away. After the last one we
+// wait for the next devicechange instead.
+const RECOVER_DELAYS = [500, 1500, 4000];
+
+const isPermissionError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'NotAllowedError' || error.name === 'SecurityError');
+
+// The mic and camera: opens the chosen device, falling back to the default when it can't,
+// and gets it back when it's unplugged, replugged or its track otherwise ends
+export abstract class MediaDeviceSource implements InputSource {
+  abstract readonly id: DeviceKind;
+
+  private status: SensorStatus = 'starting';
+  private track: MediaStreamTrack | null = null;
+  private retryTimer: number | undefined;
+  private stopped = false;
+  private unwatch = () => {};
+  // Opens run one after another, so a replug during a device switch can't open twice
+  private queue = Promise.resolve();
+
+  constructor(
+    private deviceId: string | null,
+    private readonly onStatus: (status: SensorStatus) => void = () => {}
+  ) {}
+
+  protected abstract open(deviceId: string | null): Promise<MediaStream>;
+  protected abstract close(): void;
+  protected abstract readLive(): InputSignal;
+
+  async start() {
+    this.stopped = false;
+    this.setStatus('starting');
+    try {
+      await this.reopen();
+    } catch (error) {
+      this.setStatus(isPermissionError(error) ? 'denied' : 'lost');
+      throw error;
+    }
+    this.unwatch = watchDevices(this.onDeviceChange);
+  }
+
+  read(): InputSignal {
+    // Neutral while the device is away, rather than whatever it said last
+    return this.status === 'live' ? this.readLive() : { sway: 0, blow: 0 };
+  }
+
+  stop() {
+    this.stopped = true;
+    window.clearTimeout(this.retryTimer);
+    this.unwatch();
+    this.release();
+  }
+
+  getStatus() {
+    return this.status;
+  }
+
+  // Switches device on the fly; null goes back to the default
+  async setDevice(deviceId: string | null) {
+    this.deviceId = deviceId;
+    window.clearTimeout(this.retryTimer);
+    this.setStatus('starting');
+    try {
+      await this.reopen();
+    } catch (error) {
+      this.setStatus(isPermissionError(error) ? 'denied' : 'lost');
+    }
+  }
+
+  private setStatus(status: SensorStatus) {
+    this.status = status;
+    this.onStatus(status);
+  }
+
+  private currentDeviceId() {
+    return this.track?.getSettings().deviceId ?? null;
+  }
+
+  private reopen(): Promise<void> {
+    const next = this.queue.then(async () => {
+      if (this.stopped) return;
+      this.release();
+      let stream: MediaStream;
+      try {
+        stream = await this.open(this.deviceId);
+      } catch (error) {
+        // A chosen device that's gone shouldn't leave the user with nothing
+        if (!this.deviceId || isPermissionError(error)) throw error;
+        this.close();
+        stream = await this.open(null);
+      }
+      if (this.stopped) {
+        this.close();
+        return;
+      }
+      this.track = stream.getTracks()[0] ?? null;
+      this.track?.addEventListener('ended', this.onEnded);
+      this.setStatus('live');
+    });
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  private release() {
+    this.track?.removeEventListener('ended', this.onEnded);
+    this.track = null;
+    this.close();
+  }
+
+  private onEnded = () => this.recover();
+
+  private recover(attempt = 0) {
+    if (this.stopped) return;
+    window.clearTimeout(this.retryTimer);
+    this.release();
+    this.setStatus('recovering');
+    this.retryTimer = window.setTimeout(() => {
+      this.reopen().catch(error => {
+        if (isPermissionError(error)) this.setStatus('denied');
+        else if (attempt + 1 < RECOVER_DELAYS.length) this.recover(attempt + 1);
+        else this.setStatus('lost');
+      });
+    }, RECOVER_DELAYS[attempt]);
+  }
+
+  private onDeviceChange = async () => {
+    if (this.stopped) return;
+    if (this.status === 'lost') {
+      this.recover();
+      return;
+    }
+    if (this.status !== 'live') return;
+
+    const devices = await listDevices(this.id);
+    const current = this.currentDeviceId();
+    // Some browsers don't end the track when its device is unplugged
+    if (current && current !== 'default' && !devices.some(d => d.id === current)) {
+      this.recover();
+    } else if (this.deviceId && current !== this.deviceId && devices.some(d => d.id === this.deviceId)) {
+      // Running on the default because the chosen one was away, and now it's back
+      this.reopen().catch(() => this.recover());
+    }
+  };
+}
+
+export class MicrophoneSource extends MediaDeviceSource {
+  readonly id = 'microphone';
+  readonly blowHint = 'hint.blowMic';
+
+  constructor(private readonly audio: AudioService, deviceId: string | null = null, onStatus?: (status: SensorStatus) => void) {
+    super(deviceId, onStatus);
+  }
+
+  protected open(deviceId: string | null) {
+    return this.audio.initialize(deviceId);
+  }
+
+  protected close() {
+    this.audio.cleanup();
+  }
+
+  protected readLive(): InputSignal {
+    // Level gated by the spectral blow classifier, so speech and bangs don't count
+    return { sway: 0, blow: this.audio.getBlowStrength() };
+  }
+}
+
+export class CameraSource extends MediaDeviceSource {
+  readonly id = 'camera';
+  readonly swayHint = 'hint.swayHead';
+
+  constructor(private readonly motion: MotionService, deviceId: string | null = null, onStatus?: (status: SensorStatus) => void) {
+    super(deviceId, onStatus);
+  }
+
+  protected open(deviceId: string | null) {
+    return this.motion.initialize(deviceId);
+  }
+
+  protected close() {
+    this.motion.cleanup();
+  }
+
+  protected readLive(): InputSignal {
+    // Fades toward neutral when the tracker loses the user
+    const pose = this.motion.getHeadPose();
+    return {
+      sway: pose.x * pose.confidence,
+      blow: 0,
+      nod: pose.y * pose.confidence,
+      tilt: pose.tilt * pose.confidence
+    };
+  }
+}
+
+// Arrows to sway, space to blow. Holding space builds the blow up over about half a second.
+export class KeyboardSource implements InputSource {
+  readonly id = 'keyboard';
+  readonly swayHint = 'hint.keys';
+  readonly blowHint = 'hint.space';
+
+  private keys = new Set<string>();
+  private sway = 0;
+  private blow = 0;
+  private lastRead = 0;
+
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (!['ArrowLeft', 'ArrowRight', ' '].includes(e.key)) return;
+    // Leave form controls alone
+    if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, button')) return;
+    e.preventDefault();
+    this.keys.add(e.key);
+  };
+
+  private onKeyUp = (e: KeyboardEvent) => {
+    this.keys.delete(e.key);
+  };
+
+  private onBlur = () => {
+    this.keys.clear();
+  };
+
+  async start() {
+    window.addEventListener('keydown', this.onKeyDown);
+    window.addEventListener('keyup', this.onKeyUp);
+    window.addEventListener('blur', this.onBlur);
+  }
+
+  read(): InputSignal {
+    const now = performance.now();
+    const dt = this.lastRead ? Math.min(0.1, (now - this.lastRead) / 1000) : 0;
+    this.lastRead = now;
+
+    const target = (this.keys.has('ArrowRight') ? 1 : 0) - (this.keys.has('ArrowLeft') ? 1 : 0);
+    this.sway = approach(this.sway, target, 2.5, dt);
+    this.blow = approach(this.blow, this.keys.has(' ') ? 1 : 0, this.keys.has(' ') ? 2 : 4, dt);
+
+    return { sway: this.sway, blow: this.blow };
+  }
+
+  stop() {
+    window.removeEventListener('keydown', this.onKeyDown);
+    window.removeEventListener('keyup', this.onKeyUp);
+    window.removeEventListener('blur', this.onBlur);
+    this.keys.clear();
+  }
+}
+
+// Drag sideways anywhere to sway; flick upward to blow, harder flicks blow stronger
+export class PointerSource implements InputSource {
+  readonly id = 'pointer';
+  readonly swayHint = 'hint.drag';
+  readonly blowHint = 'hint.flick';
+
+  private pointerId: number | null = null;
+  private startX = 0;
+  private lastY = 0;
+  private lastTime = 0;
+  private sway = 0;
+  private blow = 0;
+  private lastRead = 0;
+
+  private onDown = (e: PointerEvent) => {
+    // Prevented means something else took it, like a flower head being dragged
+    if (this.pointerId !== null || e.defaultPrevented) return;
+    // Only drags that start on the scene itself; presses on panels and controls are theirs
+    if (!(e.target instanceof HTMLCanvasElement)) return;
+    this.pointerId = e.pointerId;
+    this.startX = e.clientX;
+    this.lastY = e.clientY;
+    this.lastTime = e.timeStamp;
+  };
+
+  private onMove = (e: PointerEvent) => {
+    if (e.pointerId !== this.pointerId) return;
+    this.sway = clamp((e.clientX - this.startX) / (window.innerWidth / 3), -1, 1);
+
+    const dt = Math.max(1, e.timeStamp - this.lastTime);
+    const upSpeed = (this.lastY - e.clientY) / dt; // px per ms, positive when moving up
+    this.blow = Math.max(this.blow, clamp(upSpeed / 2, 0, 1));
+    this.lastY = e.clientY;
+    this.lastTime = e.timeStamp;
+  };
+
+  private onUp = (e: PointerEvent) => {
+    if (e.pointerId !== this.pointerId) return;
+    this.pointerId = null;
+  };
+
+  async start() {
+    window.addEventListener('pointerdown', this.onDown);
+    window.addEventListener('pointermove', this.onMove);
+    window.addEventListener('pointerup', this.onUp);
+    window.addEventListener('pointercancel', this.onUp);
+  }
+
+  read(): InputSignal {
+    const now = performance.now();
+    const dt = this.lastRead ? Math.min(0.1, (now - this.lastRead) / 1000) : 0;
+    this.lastRead = now;
+
+    // Let go and the flower springs back; a flick fades out like a breath
+    if (this.pointerId === null) this.sway = approach(this.sway, 0, 3, dt);
+    const signal = { sway: this.sway, blow: this.blow };
+    this.blow = approach(this.blow, 0, 2, dt);
+    return signal;
+  }
+
+  stop() {
+    window.removeEventListener('pointerdown', this.onDown);
+    window.removeEventListener('pointermove', this.onMove);
+    window.removeEventListener('pointerup', this.onUp);
+    window.removeEventListener('pointercancel', this.onUp);
+    this.pointerId = null;
+  }
+}
+
+// Left stick sways, right trigger (or A) blows
+export class GamepadSource implements InputSource {
+  readonly id = 'gamepad';
+  readonly swayHint = 'hint.stick';
+  readonly blowHint = 'hint.trigger';
+
+  async start() {
+    if (!('getGamepads' in navigator)) throw new Error("Gamepad API not supported");
+  }
+
+  read(): InputSignal {
+    const pad = Array.from(navigator.getGamepads()).find(p => p && p.connected);
+    if (!pad) return { sway: 0, blow: 0 };
+
+    const stickX = pad.axes[0] ?? 0;
+    const trigger = pad.buttons[7]?.value ?? 0;
+    const aButton = pad.buttons[0]?.pressed ? 1 : 0;
+    return {
+      sway: Math.abs(stickX) < 0.1 ? 0 : stickX,
+      blow: Math.max(trigger, aButton)
+    };
+  }
+
+  stop() {}
+}
+
+// Combines every active source: the strongest sway and strongest blow win
+export const mixSignals = (signals: InputSignal[]): InputSignal => {
+  const mixed: InputSignal = { sway: 0, blow: 0, nod: 0, tilt: 0 };
+  signals.forEach(s => {
+    if (Math.abs(s.sway) > Math.abs(mixed.sway)) mixed.sway = s.sway;
+    mixed.blow = Math.max(mixed.blow, s.blow);
+    if (s.nod !== undefined && Math.abs(s.nod) > Math.abs(mixed.nod!)) mixed.nod = s.nod;
+    if (s.tilt !== undefined && Math.abs(s.tilt) > Math.abs(mixed.tilt!)) mixed.tilt = s.tilt;
+    if (s.dt !== undefined) mixed.dt = s.dt;
+  });
+  return mixed;
+};
+
+const SELECTION_KEY = 'breathing-dandelion.inputs';
+export const DEFAULT_INPUTS: InputSourceId[] = ['microphone', 'camera', 'keyboard'];
+
+export const loadInputSelection = (): InputSourceId[] => {
+  try {
+    const raw = localStorage.getItem(SELECTION_KEY);
+    return raw ? JSON.parse(raw) : DEFAULT_INPUTS;
+  } catch {
+    return DEFAULT_INPUTS;
+  }
+};
+
+export const saveInputSelection = (ids: InputSourceId[]) => {
+  try {
+    localStorage.setItem(SELECTION_KEY, JSON.stringify(ids));
+  } catch (error) {
+    console.error("Error saving input selection:", error);
+  }
+};
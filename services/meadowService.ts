@@ -0,0 +1,56 @@
+import { MeadowPlant } from '../types';
+
+const STORAGE_KEY = 'breathing-dandelion.meadow';
+
+const MATURE_MS = 24 * 60 * 60 * 1000; // A sprout becomes a full seed head over a day
+const ROOT_CHANCE = 0.004;             // Most seeds just land; a full head roots about six
+const MAX_PLANTS = 150;                // Past this the oldest plants make room
+
+export interface SeedLanding {
+  x: number; // fractions of the scene size, like MeadowPlant
+  y: number;
+  scale: number;
+  theme: string;
+}
+
+// 0 for a fresh sprout to 1 for a mature seed head. Square-root pacing shows visible
+// growth within minutes of a session while full maturity still takes a day.
+export const growthOf = (plant: MeadowPlant, now = Date.now()): number =>
+  Math.min(1, Math.sqrt(Math.max(0, now - plant.plantedAt) / MATURE_MS));
+
+export class MeadowService {
+  load(): MeadowPlant[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.error("Error loading meadow:", error);
+      return [];
+    }
+  }
+
+  // Gives a landed seed its chance to take root. Returns the updated meadow, or null if it didn't.
+  tryRoot(landing: SeedLanding, now = Date.now(), random: () => number = Math.random): MeadowPlant[] | null {
+    if (random() >= ROOT_CHANCE) return null;
+    // Seeds that landed off screen can't be seen growing
+    if (landing.x < 0 || landing.x > 1 || landing.y > 1) return null;
+
+    const plants = this.load();
+    plants.push({
+      id: `${now}-${random().toString(36).slice(2, 8)}`,
+      ...landing,
+      plantedAt: now
+    });
+    const kept = plants.slice(-MAX_PLANTS);
+    this.save(kept);
+    return kept;
+  }
+
+  private save(plants: MeadowPlant[]) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(plants));
+    } catch (error) {
+      console.error("Error saving meadow:", error);
+    }
+  }
+}
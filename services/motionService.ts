@@ -1,102 +1,124 @@
+import { HeadPose } from '../types';
+import { HeadTracker, TRACK_WIDTH, TRACK_HEIGHT } from './headTracker';
+
 export class MotionService {
   private video: HTMLVideoElement;
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
   private stream: MediaStream | null = null;
-  private prevFrame: ImageData | null = null;
   private isReady: boolean = false;
-  
-  // Downsampling for performance
-  private readonly width = 64;
-  private readonly height = 48;
+  private pose: HeadPose = { x: 0, y: 0, tilt: 0, confidence: 0 };
+
+  // Frames go to a worker so the pixel work doesn't compete with rendering.
+  // Only one frame is in flight at a time; the newest pose is used until the next arrives.
+  private worker: Worker | null = null;
+  private workerBusy = false;
+
+  // Main-thread fallback for browsers without OffscreenCanvas in workers
+  private canvas: HTMLCanvasElement | null = null;
+  private ctx: CanvasRenderingContext2D | null = null;
+  private tracker: HeadTracker | null = null;
 
   constructor() {
     this.video = document.createElement('video');
-    this.canvas = document.createElement('canvas');
-    this.canvas.width = this.width;
-    this.canvas.height = this.height;
-    this.ctx = this.canvas.getContext('2d', { willReadFrequently: true })!;
   }
 
-  async initialize(): Promise<void> {
+  // Opens the given camera, or the front-facing one. Returns the stream so callers can
+  // watch its track for the device going away.
+  async initialize(deviceId: string | null = null): Promise<MediaStream> {
     try {
-      this.stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { 
-          facingMode: 'user',
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        video: {
+          ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'user' }),
           width: { ideal: 320 },
           height: { ideal: 240 }
-        } 
+        }
       });
       this.video.srcObject = this.stream;
-      this.video.play();
-      
+      this.video.play().catch(() => {});
+
       await new Promise<void>((resolve) => {
         this.video.onloadedmetadata = () => resolve();
       });
+      this.startWorker();
       this.isReady = true;
+      return this.stream;
     } catch (error) {
       console.error("Error accessing camera:", error);
       throw error;
     }
   }
 
-  // Returns a value between -1 (left) and 1 (right) indicating movement center
-  getHorizontalMotion(): number {
-    if (!this.isReady || this.video.paused || this.video.ended) return 0;
-
-    // Draw current video frame to small canvas
-    this.ctx.drawImage(this.video, 0, 0, this.width, this.height);
-    const currentFrame = this.ctx.getImageData(0, 0, this.width, this.height);
-    
-    if (!this.prevFrame) {
-      this.prevFrame = currentFrame;
-      return 0;
+  private startWorker() {
+    if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') return;
+    try {
+      this.worker = new Worker(new URL('./motionWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (e: MessageEvent<HeadPose>) => {
+        this.pose = e.data;
+        this.workerBusy = false;
+      };
+      this.worker.onerror = (e) => {
+        console.warn("Motion worker failed, tracking on the main thread:", e.message);
+        this.stopWorker();
+      };
+    } catch (error) {
+      console.warn("Motion worker unavailable, tracking on the main thread:", error);
+      this.worker = null;
     }
+  }
 
-    let motionSumX = 0;
-    let motionPixelCount = 0;
-    const threshold = 20; // Sensitivity for pixel change
+  private stopWorker() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerBusy = false;
+  }
 
-    const data = currentFrame.data;
-    const prevData = this.prevFrame.data;
+  // Estimates where the user's head is. Call once per frame.
+  getHeadPose(): HeadPose {
+    if (!this.isReady || this.video.paused || this.video.ended) return this.pose;
 
-    for (let i = 0; i < data.length; i += 4) {
-      // Simple RGB difference
-      const rDiff = Math.abs(data[i] - prevData[i]);
-      const gDiff = Math.abs(data[i + 1] - prevData[i + 1]);
-      const bDiff = Math.abs(data[i + 2] - prevData[i + 2]);
-      
-      if (rDiff + gDiff + bDiff > threshold * 3) {
-        // Pixel changed significantly
-        const pixelIndex = i / 4;
-        const x = pixelIndex % this.width;
-        
-        // Accumulate X coordinate of motion
-        motionSumX += x;
-        motionPixelCount++;
+    if (this.worker) {
+      if (!this.workerBusy) {
+        this.workerBusy = true;
+        createImageBitmap(this.video)
+          .then(bitmap => {
+            if (this.worker) this.worker.postMessage(bitmap, [bitmap]);
+            else bitmap.close();
+          })
+          .catch(() => {
+            this.workerBusy = false;
+          });
       }
+      return this.pose;
     }
 
-    this.prevFrame = currentFrame;
-
-    if (motionPixelCount > 10) { // Noise filter
-      const avgX = motionSumX / motionPixelCount;
-      // Normalize to -1 to 1 (Mirrored because it's a selfie camera usually)
-      // If user moves head RIGHT (screen left), x is low. 
-      // width/2 is center.
-      // (avgX - 32) / 32 -> -1 to 1
-      // Multiply by -1 to mirror correctly for intuitive "follow me" feel
-      return -1 * ((avgX - (this.width / 2)) / (this.width / 2));
+    if (!this.ctx) {
+      this.canvas = document.createElement('canvas');
+      this.canvas.width = TRACK_WIDTH;
+      this.canvas.height = TRACK_HEIGHT;
+      this.ctx = this.canvas.getContext('2d', { willReadFrequently: true })!;
+      this.tracker = new HeadTracker();
     }
+    // Draw current video frame to small canvas
+    this.ctx.drawImage(this.video, 0, 0, TRACK_WIDTH, TRACK_HEIGHT);
+    this.pose = this.tracker!.process(this.ctx.getImageData(0, 0, TRACK_WIDTH, TRACK_HEIGHT).data);
+    return this.pose;
+  }
 
-    return 0;
+  // Returns a value between -1 (left) and 1 (right) for the head position,
+  // fading toward 0 as tracking confidence drops
+  getHorizontalMotion(): number {
+    const pose = this.getHeadPose();
+    return pose.x * pose.confidence;
   }
 
   cleanup() {
     if (this.stream) {
       this.stream.getTracks().forEach(track => track.stop());
+      this.stream = null;
     }
+    this.stopWorker();
+    this.isReady = false;
+    this.pose = { x: 0, y: 0, tilt: 0, confidence: 0 };
     this.video.pause();
     this.video.srcObject = null;
   }
-}
\ No newline at end of file
+}
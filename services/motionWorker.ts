@@ -0,0 +1,14 @@
+import { HeadTracker, TRACK_WIDTH, TRACK_HEIGHT } from './headTracker';
+
+// Runs the head tracker off the main thread. Receives camera frames as ImageBitmaps,
+// replies with a HeadPose per frame.
+const tracker = new HeadTracker();
+const canvas = new OffscreenCanvas(TRACK_WIDTH, TRACK_HEIGHT);
+const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+self.onmessage = (e: MessageEvent<ImageBitmap>) => {
+  ctx.drawImage(e.data, 0, 0, TRACK_WIDTH, TRACK_HEIGHT);
+  e.data.close();
+  const frame = ctx.getImageData(0, 0, TRACK_WIDTH, TRACK_HEIGHT);
+  self.postMessage(tracker.process(frame.data));
+};
@@ -0,0 +1,95 @@
+import { QualityTier } from '../types';
+import { RendererBackend } from './renderer';
+
+export interface QualitySettings {
+  seedCount: number;
+  pappusHairs: number; // strokes in each seed's fan; 0 skips the fan
+  fluffCount: number;
+  sparkleCount: number;
+  glow: boolean; // shadow blur around the core
+  sortInterval: number; // re-sort seeds by depth every N frames
+}
+
+export const QUALITY_TIERS: QualityTier[] = ['high', 'medium', 'low', 'minimal'];
+
+// Ultra's seed count is only realistic with instanced WebGL drawing. The simulation is still on
+// the CPU, so the scene caps seeds across all its flowers (see MAX_SCENE_SEEDS).
+export const tiersFor = (backend: RendererBackend): QualityTier[] =>
+  backend === 'webgl' ? ['ultra', ...QUALITY_TIERS] : QUALITY_TIERS;
+
+export const QUALITY_SETTINGS: Record<QualityTier, QualitySettings> = {
+  ultra:   { seedCount: 20000, pappusHairs: 7, fluffCount: 2000, sparkleCount: 2000, glow: true, sortInterval: 1 },
+  high:    { seedCount: 1500, pappusHairs: 7, fluffCount: 1200, sparkleCount: 600, glow: true,  sortInterval: 1 },
+  medium:  { seedCount: 1000, pappusHairs: 5, fluffCount: 600,  sparkleCount: 350, glow: true,  sortInterval: 2 },
+  low:     { seedCount: 600,  pappusHairs: 3, fluffCount: 250,  sparkleCount: 150, glow: false, sortInterval: 4 },
+  minimal: { seedCount: 350,  pappusHairs: 0, fluffCount: 100,  sparkleCount: 60,  glow: false, sortInterval: 8 }
+};
+
+// Reduced motion: fewer seeds to burst, a thin scatter of sparkles and no glow
+export const reducedMotionSettings = (settings: QualitySettings): QualitySettings => ({
+  ...settings,
+  seedCount: Math.min(settings.seedCount, QUALITY_SETTINGS.low.seedCount),
+  sparkleCount: Math.round(settings.sparkleCount / 6),
+  fluffCount: Math.round(settings.fluffCount / 2),
+  glow: false
+});
+
+// Frame pacing targets
+const SLOW_FRAME_MS = 1000 / 45;   // Average frame interval above this means we're dropping frames
+const FAST_WORK_MS = 6;            // Render work below this leaves room for more detail
+const DOWNGRADE_AFTER_MS = 2000;
+const UPGRADE_AFTER_MS = 8000;
+const SMOOTHING = 0.05;
+
+// Watches frame intervals and render cost and steps through the quality tiers.
+// Drops quickly when frames are slow, climbs back slowly so it doesn't oscillate.
+export class QualityController {
+  private readonly tiers: QualityTier[];
+  private tierIndex = 0;
+  private avgInterval = 1000 / 60;
+  private avgWork = 0;
+  private slowFor = 0;
+  private fastFor = 0;
+
+  constructor(initial: QualityTier = 'high', tiers: QualityTier[] = QUALITY_TIERS) {
+    this.tiers = tiers;
+    this.tierIndex = Math.max(0, tiers.indexOf(initial));
+  }
+
+  getTier(): QualityTier {
+    return this.tiers[this.tierIndex];
+  }
+
+  // `interval` is the time since the previous frame, `work` the time spent rendering this one.
+  // Returns true when the tier changed.
+  recordFrame(interval: number, work: number): boolean {
+    // Ignore hitches from tab switches and the like
+    if (interval <= 0 || interval > 250) return false;
+
+    this.avgInterval += (interval - this.avgInterval) * SMOOTHING;
+    this.avgWork += (work - this.avgWork) * SMOOTHING;
+
+    this.slowFor = this.avgInterval > SLOW_FRAME_MS ? this.slowFor + interval : 0;
+    this.fastFor = this.avgInterval <= SLOW_FRAME_MS && this.avgWork < FAST_WORK_MS ? this.fastFor + interval : 0;
+
+    if (this.slowFor > DOWNGRADE_AFTER_MS && this.tierIndex < this.tiers.length - 1) {
+      this.tierIndex++;
+      this.reset();
+      return true;
+    }
+    if (this.fastFor > UPGRADE_AFTER_MS && this.tierIndex > 0) {
+      this.tierIndex--;
+      this.reset();
+      return true;
+    }
+    return false;
+  }
+
+  private reset() {
+    this.slowFor = 0;
+    this.fastFor = 0;
+    // Give the new tier a clean read
+    this.avgInterval = 1000 / 60;
+    this.avgWork = 0;
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { Particle } from '../types';
+import { SeedProjection, cameraFor, projectGround, projectSeed } from './renderer';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+
+const seedAt = (x: number, y: number, z: number, isAttached: boolean): Particle => ({
+  x, y, z, vx: 0, vy: 0, vz: 0, origX: x, origY: y, origZ: z,
+  life: 0, maxLife: 0, alpha: 1, size: 1, isAttached, color: 'white', grip: 1, exposure: 1, stress: 0
+});
+
+const project = (p: Particle, headX: number, headY: number) => {
+  const out: SeedProjection = { baseX: 0, baseY: 0, tipX: 0, tipY: 0, scale: 0, alpha: 0 };
+  expect(projectSeed(p, headX, headY, cameraFor(WIDTH, HEIGHT), 1, out)).toBe(true);
+  return out;
+};
+
+describe('projectSeed', () => {
+  it("keeps a grounded seed in place while the head sways", () => {
+    const grounded = seedAt(250, HEIGHT, 300, false);
+    const still = project(grounded, 400, 300);
+    expect(project(grounded, 460, 280)).toEqual(still);
+    expect(project(grounded, 340, 320)).toEqual(still);
+  });
+
+  it('puts grounded seeds on the ground line, which recedes towards the horizon', () => {
+    const camera = cameraFor(WIDTH, HEIGHT);
+    const near = project(seedAt(400, HEIGHT, 0, false), 400, 300);
+    const far = project(seedAt(400, HEIGHT, 1000, false), 400, 300);
+    expect((near.baseY + near.tipY) / 2).toBeCloseTo(HEIGHT);
+    expect((far.baseY + far.tipY) / 2).toBeLessThan(HEIGHT);
+    expect((far.baseY + far.tipY) / 2).toBeGreaterThan(camera.y);
+  });
+
+  it('draws attached seeds around their head', () => {
+    const attached = seedAt(430, 300, 0, true);
+    const at = project(attached, 400, 300);
+    const moved = project({ ...attached, x: 490, y: 280 }, 460, 280);
+    expect(moved.tipX - at.tipX).toBeCloseTo(60);
+    expect(moved.tipY - at.tipY).toBeCloseTo(-20);
+  });
+});
+
+describe('projectGround', () => {
+  it('lands a seed where the renderer draws it on the ground', () => {
+    const drawn = project(seedAt(250, HEIGHT, 300, false), 460, 280);
+    const landing = projectGround(250, 300, WIDTH, HEIGHT)!;
+    // The seed's centre sits between its base and tip, 0.5 and 0.8 of its length away
+    expect(landing.x * WIDTH).toBeCloseTo((drawn.baseX * 0.8 + drawn.tipX * 0.5) / 1.3);
+    expect(landing.y * HEIGHT).toBeCloseTo((drawn.baseY * 0.8 + drawn.tipY * 0.5) / 1.3);
+  });
+
+  it('keeps landings within the ground band', () => {
+    const near = projectGround(400, -200, WIDTH, HEIGHT)!;
+    const far = projectGround(400, 1500, WIDTH, HEIGHT)!;
+    expect(near.y).toBe(1);
+    expect(far.y).toBeGreaterThanOrEqual(cameraFor(WIDTH, HEIGHT).y / HEIGHT);
+    expect(far.y).toBeLessThan(1);
+  });
+});
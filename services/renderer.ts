@@ -0,0 +1,129 @@
+import { Particle } from '../types';
+import { DandelionSimulation } from './dandelionSimulation';
+import { QualitySettings } from './qualityService';
+import { ThemeColors } from './themes';
+
+export type RendererBackend = 'webgl' | 'canvas2d';
+
+// Short hairs drawn over the core, in head-local coordinates before displayScale
+export interface FluffParticle {
+  x: number;
+  y: number;
+  angle: number;
+  length: number;
+  alpha: number;
+}
+
+// Everything a backend needs to draw one flower
+export interface RenderFrame {
+  sim: DandelionSimulation;
+  theme: ThemeColors;
+  quality: QualitySettings;
+  fluff: FluffParticle[];
+  displayScale: number;
+  frame: number; // frame counter, for work spread over several frames
+}
+
+// Draws simulations. Backends own their canvas context; the canvas component picks one.
+// Each frame is a `begin` followed by one `render` per flower.
+export interface DandelionRenderer {
+  readonly backend: RendererBackend;
+  resize(width: number, height: number): void;
+  begin(): void;
+  render(frame: RenderFrame): void;
+}
+
+export const createFluff = (count: number, random: () => number = Math.random): FluffParticle[] => {
+  const fluff: FluffParticle[] = [];
+  const radius = 28;
+  for (let i = 0; i < count; i++) {
+    const r = Math.pow(random(), 0.5) * radius;
+    const theta = random() * Math.PI * 2;
+    const isEdge = r > radius * 0.85;
+    const angle = isEdge ? theta : random() * Math.PI * 2;
+
+    fluff.push({
+      x: Math.cos(theta) * r,
+      y: Math.sin(theta) * r,
+      angle: angle,
+      length: isEdge ? 4 + random() * 5 : 2 + random() * 3,
+      alpha: 0.3 + random() * 0.5
+    });
+  }
+  return fluff;
+};
+
+// A seed flattened to screen space: stalk from base to tip, pappus fanning out from the tip
+export interface SeedProjection {
+  baseX: number;
+  baseY: number;
+  tipX: number;
+  tipY: number;
+  scale: number; // perspective scale
+  alpha: number; // alpha with depth falloff applied
+}
+
+const FOCAL_LENGTH = 500;
+const HORIZON = 0.6; // fraction of the canvas height where the ground recedes to
+
+// Where free seeds converge with depth. It stays put while the flowers sway, so the
+// ground (y = height in the simulation) projects to a fixed band below the horizon.
+export interface ProjectionCamera {
+  x: number;
+  y: number;
+}
+
+export const cameraFor = (width: number, height: number): ProjectionCamera => ({ x: width / 2, y: height * HORIZON });
+
+// Where a landed seed rests on screen, as fractions of the canvas. Depends only on where it
+// came down (x and depth), so it matches where the renderer draws it. Null when too far to see.
+export const projectGround = (x: number, z: number, width: number, height: number): { x: number; y: number; scale: number } | null => {
+  const scale = FOCAL_LENGTH / (FOCAL_LENGTH + z);
+  if (scale <= 0.1) return null;
+  const camera = cameraFor(width, height);
+  const y = camera.y + (height - camera.y) * scale;
+  return {
+    x: (camera.x + (x - camera.x) * scale) / width,
+    // Seeds landing nearer than the canvas edge still belong to the visible ground band
+    y: Math.min(1, Math.max(HORIZON, y / height)),
+    scale
+  };
+};
+
+// Shared by both backends so they place seeds identically. Attached seeds are drawn around
+// their head; released and landed ones around the camera. Writes into `out` to avoid
+// allocating per seed; returns false when the seed is too faint or too far to draw.
+export const projectSeed = (p: Particle, headX: number, headY: number, camera: ProjectionCamera, displayScale: number, out: SeedProjection): boolean => {
+  const scale = FOCAL_LENGTH / (FOCAL_LENGTH + p.z);
+  if (p.alpha <= 0.05 || scale <= 0.1) return false;
+
+  // Adjust alpha based on depth to create volume
+  out.alpha = p.alpha * (p.z > 0 ? 1 : 0.6);
+  out.scale = scale;
+
+  if (p.isAttached) {
+    const relX = p.x - headX;
+    const relY = p.y - headY;
+    out.tipX = headX + relX * scale;
+    out.tipY = headY + relY * scale;
+
+    const innerRatio = 0.15;
+    out.baseX = headX + relX * scale * innerRatio;
+    out.baseY = headY + relY * scale * innerRatio;
+  } else {
+    // Free seeds point along their direction of travel
+    const speed = Math.sqrt(p.vx * p.vx + p.vy * p.vy);
+    const rotationAngle = speed > 0.1 ? Math.atan2(p.vy, p.vx) : 0;
+    const projCX = camera.x + (p.x - camera.x) * scale;
+    const projCY = camera.y + (p.y - camera.y) * scale;
+
+    // Scale seed length for mobile
+    const seedLen = 20 * scale * displayScale;
+
+    out.baseX = projCX + Math.cos(rotationAngle) * (seedLen * 0.5);
+    out.baseY = projCY + Math.sin(rotationAngle) * (seedLen * 0.5);
+    out.tipX = projCX - Math.cos(rotationAngle) * (seedLen * 0.8);
+    out.tipY = projCY - Math.sin(rotationAngle) * (seedLen * 0.8);
+  }
+  return true;
+};
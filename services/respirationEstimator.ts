@@ -0,0 +1,109 @@
+import { RespirationStats } from '../types';
+
+// Finds breathing cycles in the microphone level. Exhales toward the mic are loud and
+// inhales are quiet, so each loud stretch is one exhale and the quiet gap before the next
+// is the inhale (and any pause). Thresholds adapt to the room and the user's distance.
+
+const ENVELOPE_MS = 150;       // Smoothing on the raw level
+const FLOOR_RISE_MS = 6000;    // Noise floor creeps up slowly, drops immediately
+const PEAK_FALL_MS = 12000;    // Peak level decays slowly, rises immediately
+const ON_FRACTION = 0.35;      // Exhale starts this far from floor to peak
+const OFF_FRACTION = 0.2;      // ...and ends below this, so noise around one line doesn't flicker
+const MIN_SWING = 0.03;        // Peak must clear the floor by this much before anything counts
+const MIN_EXHALE_MS = 400;     // Shorter bursts are coughs, clicks or words
+const MIN_PERIOD_MS = 1500;    // 40 breaths a minute
+const MAX_PERIOD_MS = 30000;   // 2 breaths a minute
+const WINDOW_MS = 60000;       // Stats cover the last minute of breathing
+const MIN_CYCLES = 2;
+
+interface Cycle {
+  end: number; // when the following exhale started
+  period: number;
+  exhale: number;
+}
+
+const ease = (dt: number, tau: number) => 1 - Math.exp(-dt / tau);
+
+export class RespirationEstimator {
+  private envelope = 0;
+  private floor = 0;
+  private peak = 0;
+  private lastTime = 0;
+
+  private exhaling = false;
+  private exhaleStart = 0;
+  private lastExhaleStart = 0;
+  private lastExhaleMs = 0;
+  private cycles: Cycle[] = [];
+  private stats: RespirationStats | null = null;
+
+  // Feed the calibrated, ungated mic level once per frame
+  process(level: number, now: number) {
+    const dt = this.lastTime ? Math.min(now - this.lastTime, 250) : 16;
+    this.lastTime = now;
+
+    this.envelope += (level - this.envelope) * ease(dt, ENVELOPE_MS);
+    this.floor = this.envelope < this.floor ? this.envelope : this.floor + (this.envelope - this.floor) * ease(dt, FLOOR_RISE_MS);
+    this.peak = this.envelope > this.peak ? this.envelope : this.peak + (this.envelope - this.peak) * ease(dt, PEAK_FALL_MS);
+
+    const swing = this.peak - this.floor;
+    if (swing < MIN_SWING) return;
+
+    if (!this.exhaling && this.envelope > this.floor + swing * ON_FRACTION) {
+      this.exhaling = true;
+      this.exhaleStart = now;
+    } else if (this.exhaling && this.envelope < this.floor + swing * OFF_FRACTION) {
+      this.exhaling = false;
+      if (now - this.exhaleStart >= MIN_EXHALE_MS) this.completeExhale(this.exhaleStart, now - this.exhaleStart);
+    }
+  }
+
+  private completeExhale(start: number, duration: number) {
+    // A cycle runs from one exhale's start to the next; the previous exhale's length goes with it
+    const period = start - this.lastExhaleStart;
+    if (this.lastExhaleStart && period >= MIN_PERIOD_MS && period <= MAX_PERIOD_MS) {
+      this.cycles.push({ end: start, period, exhale: this.lastExhaleMs });
+    }
+    this.lastExhaleStart = start;
+    this.lastExhaleMs = duration;
+    this.updateStats(start);
+  }
+
+  private updateStats(now: number) {
+    this.cycles = this.cycles.filter(c => now - c.end <= WINDOW_MS);
+    if (this.cycles.length < MIN_CYCLES) {
+      this.stats = null;
+      return;
+    }
+    const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+    const period = mean(this.cycles.map(c => c.period));
+    const exhale = mean(this.cycles.map(c => c.exhale));
+    const inhale = Math.max(0, period - exhale);
+    this.stats = {
+      bpm: 60000 / period,
+      exhaleSeconds: exhale / 1000,
+      inhaleSeconds: inhale / 1000,
+      ratio: exhale > 0 ? inhale / exhale : 0,
+      cycles: this.cycles.length
+    };
+  }
+
+  // The same object until a new breath is counted, so it's cheap to compare. Null until a
+  // couple of breaths have been seen, or once breathing hasn't been heard for a while.
+  getStats(now: number): RespirationStats | null {
+    if (this.stats && now - this.lastExhaleStart > MAX_PERIOD_MS) {
+      this.cycles = [];
+      this.stats = null;
+    }
+    return this.stats;
+  }
+
+  reset() {
+    this.envelope = this.floor = this.peak = 0;
+    this.lastTime = 0;
+    this.exhaling = false;
+    this.lastExhaleStart = 0;
+    this.cycles = [];
+    this.stats = null;
+  }
+}
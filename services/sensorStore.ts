@@ -0,0 +1,49 @@
+import { SensorFrame } from '../types';
+
+type Listener = (frame: SensorFrame) => void;
+
+interface Subscriber {
+  listener: Listener;
+  interval: number;
+  last: number;
+}
+
+export const IDLE_SENSOR_FRAME: SensorFrame = {
+  sway: 0,
+  blow: 0,
+  nod: 0,
+  tilt: 0,
+  action: 'IDLE',
+  guide: null,
+  releaseAllowed: true,
+  respiration: null
+};
+
+// Latest sensor values, written by the sensor loop every frame. The canvas reads it directly
+// each tick; React UI subscribes at a throttled rate instead of re-rendering 60 times a second.
+export class SensorStore {
+  private frame: SensorFrame = IDLE_SENSOR_FRAME;
+  private subscribers = new Set<Subscriber>();
+
+  get(): SensorFrame {
+    return this.frame;
+  }
+
+  publish(frame: SensorFrame, now = performance.now()) {
+    this.frame = frame;
+    this.subscribers.forEach(s => {
+      if (now - s.last < s.interval) return;
+      s.last = now;
+      s.listener(frame);
+    });
+  }
+
+  // `interval` is the minimum ms between calls. Returns the unsubscribe function.
+  subscribe(listener: Listener, interval = 0): () => void {
+    const subscriber: Subscriber = { listener, interval, last: -Infinity };
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+}
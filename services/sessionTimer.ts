@@ -0,0 +1,53 @@
+// Counts a session's running time, not wall time: paused stretches (a hidden tab) don't count.
+// A null duration runs open-ended and never finishes.
+
+export const SESSION_DURATIONS = [3, 5, 10, 15]; // minutes
+
+export class SessionTimer {
+  private duration: number | null = null; // ms
+  private startedAt = 0;
+  private pausedAt: number | null = null;
+  private pausedTotal = 0;
+
+  start(durationMs: number | null, now: number) {
+    this.duration = durationMs;
+    this.startedAt = now;
+    this.pausedAt = null;
+    this.pausedTotal = 0;
+  }
+
+  pause(now: number) {
+    if (this.pausedAt === null) this.pausedAt = now;
+  }
+
+  resume(now: number) {
+    if (this.pausedAt === null) return;
+    this.pausedTotal += now - this.pausedAt;
+    this.pausedAt = null;
+  }
+
+  isPaused() {
+    return this.pausedAt !== null;
+  }
+
+  getDuration() {
+    return this.duration;
+  }
+
+  elapsed(now: number) {
+    return (this.pausedAt ?? now) - this.startedAt - this.pausedTotal;
+  }
+
+  remaining(now: number) {
+    return this.duration === null ? null : Math.max(0, this.duration - this.elapsed(now));
+  }
+
+  // 0 to 1, or null when open-ended
+  progress(now: number) {
+    return this.duration === null ? null : Math.min(1, this.elapsed(now) / this.duration);
+  }
+
+  isFinished(now: number) {
+    return this.duration !== null && this.elapsed(now) >= this.duration;
+  }
+}
@@ -0,0 +1,313 @@
+// Generative ambient sound: a slowly shifting pad, wind that follows head sway, chimes
+// scattered like the sparkles on a release, and a low swell while the flowers regrow.
+// Output only. It runs on its own AudioContext and is never connected to the microphone graph.
+
+const STORAGE_KEY = 'breathing-dandelion.sound';
+
+// D major pentatonic, so any notes that overlap still sound consonant
+const SCALE = [0, 2, 4, 7, 9];
+const ROOT_MIDI = 50; // D3
+
+const PAD_VOICES = 3;
+const PAD_LEVEL = 0.05;
+const PAD_CHANGE_MS = 9000;   // Roughly how often one pad voice moves to a new note
+const WIND_LEVEL = 0.16;      // At full sway speed
+const WIND_FULL_SPEED = 2.5;  // Sway units per second that count as full wind
+const SWELL_LEVEL = 0.09;
+const CHIME_LEVEL = 0.05;
+const CHIME_SPREAD = 1.7;     // Seconds, about a sparkle's lifetime
+const MAX_CHIMES = 24;        // At full strength
+
+export interface SoundSettings {
+  volume: number; // 0 to 1
+  muted: boolean;
+}
+
+const DEFAULT_SETTINGS: SoundSettings = { volume: 0.6, muted: false };
+
+export const loadSoundSettings = (): SoundSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSoundSettings = (settings: SoundSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Not worth interrupting anything over
+  }
+};
+
+const midiToHz = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
+
+// Scale degree (any integer, negative goes down) to a MIDI note
+const scaleNote = (degree: number, octave = 0) => {
+  const octaves = Math.floor(degree / SCALE.length);
+  const step = degree - octaves * SCALE.length;
+  return ROOT_MIDI + (octave + octaves) * 12 + SCALE[step];
+};
+
+interface PadVoice {
+  osc: OscillatorNode;
+  gain: GainNode;
+  degree: number;
+}
+
+export class SoundscapeService {
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private settings = loadSoundSettings();
+
+  private padVoices: PadVoice[] = [];
+  private padFilter: BiquadFilterNode | null = null;
+  private nextPadChange = 0;
+
+  private windGain: GainNode | null = null;
+  private windFilter: BiquadFilterNode | null = null;
+
+  private swellGain: GainNode | null = null;
+  private regrowing = false;
+
+  constructor(private readonly random: () => number = Math.random) {}
+
+  // Call from a user gesture (click, key press) so the browser lets the context run.
+  // If it still starts suspended, the next gesture anywhere on the page resumes it.
+  start() {
+    if (this.ctx) {
+      this.resume();
+      return;
+    }
+    const Context = window.AudioContext || (window as any).webkitAudioContext;
+    if (!Context) return;
+
+    const ctx = new Context();
+    this.ctx = ctx;
+
+    const compressor = ctx.createDynamicsCompressor();
+    compressor.connect(ctx.destination);
+    this.master = ctx.createGain();
+    this.master.gain.value = this.targetVolume();
+    this.master.connect(compressor);
+
+    this.buildPad(ctx, this.master);
+    this.buildWind(ctx, this.master);
+    this.buildSwell(ctx, this.master);
+
+    if (ctx.state === 'suspended') {
+      const resume = () => {
+        this.resume();
+        window.removeEventListener('pointerdown', resume);
+        window.removeEventListener('keydown', resume);
+      };
+      window.addEventListener('pointerdown', resume);
+      window.addEventListener('keydown', resume);
+    }
+  }
+
+  private resume() {
+    if (this.ctx?.state === 'suspended') this.ctx.resume().catch(() => {});
+  }
+
+  getSettings(): SoundSettings {
+    return this.settings;
+  }
+
+  setVolume(volume: number) {
+    this.applySettings({ ...this.settings, volume: Math.max(0, Math.min(1, volume)) });
+  }
+
+  setMuted(muted: boolean) {
+    this.applySettings({ ...this.settings, muted });
+  }
+
+  private applySettings(settings: SoundSettings) {
+    this.settings = settings;
+    saveSoundSettings(settings);
+    if (this.ctx && this.master) {
+      this.master.gain.setTargetAtTime(this.targetVolume(), this.ctx.currentTime, 0.1);
+    }
+  }
+
+  private targetVolume() {
+    // Squared so the slider feels even across its range
+    return this.settings.muted ? 0 : this.settings.volume * this.settings.volume;
+  }
+
+  // Per frame. `swaySpeed` is head movement in sway units per second.
+  update(now: number, swaySpeed: number) {
+    const ctx = this.ctx;
+    if (!ctx || ctx.state !== 'running') return;
+    const t = ctx.currentTime;
+
+    const wind = Math.min(1, swaySpeed / WIND_FULL_SPEED);
+    this.windGain!.gain.setTargetAtTime(0.01 + wind * WIND_LEVEL, t, 0.3);
+    this.windFilter!.frequency.setTargetAtTime(300 + wind * 900, t, 0.3);
+
+    if (now >= this.nextPadChange) {
+      this.nextPadChange = now + PAD_CHANGE_MS * (0.6 + this.random() * 0.8);
+      this.movePadVoice(t);
+    }
+  }
+
+  // Chimes for a release. Like the sparkles, a stronger breath gives a bigger, denser burst
+  // that thins out as it fades.
+  release(strength: number) {
+    const ctx = this.ctx;
+    if (!ctx || ctx.state !== 'running' || !this.master) return;
+    const count = Math.round(4 + (MAX_CHIMES - 4) * Math.min(1, strength));
+    const start = ctx.currentTime + 0.02;
+    for (let i = 0; i < count; i++) {
+      // Squaring crowds the chimes toward the start of the burst
+      const offset = Math.pow(this.random(), 2) * CHIME_SPREAD;
+      const degree = Math.floor(this.random() * SCALE.length * 2);
+      this.chime(ctx, this.master, start + offset, midiToHz(scaleNote(degree, 2)));
+    }
+  }
+
+  // Low swell while any flower is regrowing
+  setRegrowing(active: boolean) {
+    if (active === this.regrowing) return;
+    this.regrowing = active;
+    if (!this.ctx || !this.swellGain) return;
+    this.swellGain.gain.setTargetAtTime(active ? SWELL_LEVEL : 0, this.ctx.currentTime, active ? 1.2 : 0.8);
+  }
+
+  // Three soft bells, low to high, to close a session
+  ending() {
+    const ctx = this.ctx;
+    if (!ctx || ctx.state !== 'running' || !this.master) return;
+    const start = ctx.currentTime + 0.05;
+    [0, 2, 4].forEach((degree, i) => this.chime(ctx, this.master!, start + i * 0.7, midiToHz(scaleNote(degree, 1))));
+  }
+
+  // Hidden tab: silence everything without losing where the pad was
+  setPaused(paused: boolean) {
+    if (!this.ctx) return;
+    if (paused) this.ctx.suspend().catch(() => {});
+    else this.resume();
+  }
+
+  stop() {
+    this.ctx?.close();
+    this.ctx = null;
+    this.master = null;
+    this.padVoices = [];
+  }
+
+  private buildPad(ctx: AudioContext, out: AudioNode) {
+    this.padFilter = ctx.createBiquadFilter();
+    this.padFilter.type = 'lowpass';
+    this.padFilter.frequency.value = 900;
+    this.padFilter.Q.value = 0.7;
+    this.padFilter.connect(out);
+
+    // A very slow sweep on the filter keeps the pad from sounding static
+    const lfo = ctx.createOscillator();
+    const lfoDepth = ctx.createGain();
+    lfo.frequency.value = 0.03;
+    lfoDepth.gain.value = 400;
+    lfo.connect(lfoDepth).connect(this.padFilter.frequency);
+    lfo.start();
+
+    [0, 2, 4].slice(0, PAD_VOICES).forEach((degree, i) => {
+      const osc = ctx.createOscillator();
+      osc.type = i === 0 ? 'sine' : 'triangle';
+      osc.frequency.value = midiToHz(scaleNote(degree));
+      osc.detune.value = (this.random() - 0.5) * 8;
+      const gain = ctx.createGain();
+      gain.gain.value = 0;
+      gain.gain.setTargetAtTime(PAD_LEVEL, ctx.currentTime, 2);
+      osc.connect(gain).connect(this.padFilter!);
+      osc.start();
+      this.padVoices.push({ osc, gain, degree });
+    });
+    this.nextPadChange = performance.now() + PAD_CHANGE_MS;
+  }
+
+  // One voice steps to a nearby scale note, fading out and back in around the glide
+  private movePadVoice(t: number) {
+    const voice = this.padVoices[Math.floor(this.random() * this.padVoices.length)];
+    if (!voice) return;
+    const step = this.random() < 0.5 ? -1 : 1;
+    // Stay within about an octave and a half above the root
+    voice.degree = Math.max(-2, Math.min(7, voice.degree + step * (1 + Math.floor(this.random() * 2))));
+
+    voice.gain.gain.setTargetAtTime(PAD_LEVEL * 0.3, t, 1);
+    voice.osc.frequency.setTargetAtTime(midiToHz(scaleNote(voice.degree)), t + 1.5, 0.8);
+    voice.gain.gain.setTargetAtTime(PAD_LEVEL, t + 2.5, 1.5);
+  }
+
+  private buildWind(ctx: AudioContext, out: AudioNode) {
+    // Two seconds of brown-ish noise, looped
+    const length = ctx.sampleRate * 2;
+    const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    let last = 0;
+    for (let i = 0; i < length; i++) {
+      last = (last + 0.02 * (this.random() * 2 - 1)) / 1.02;
+      data[i] = last * 3.5;
+    }
+
+    const noise = ctx.createBufferSource();
+    noise.buffer = buffer;
+    noise.loop = true;
+
+    this.windFilter = ctx.createBiquadFilter();
+    this.windFilter.type = 'bandpass';
+    this.windFilter.frequency.value = 300;
+    this.windFilter.Q.value = 0.8;
+
+    this.windGain = ctx.createGain();
+    this.windGain.gain.value = 0;
+
+    noise.connect(this.windFilter).connect(this.windGain).connect(out);
+    noise.start();
+  }
+
+  private buildSwell(ctx: AudioContext, out: AudioNode) {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 240;
+
+    this.swellGain = ctx.createGain();
+    this.swellGain.gain.value = 0;
+    filter.connect(this.swellGain).connect(out);
+
+    // Root and fifth two octaves down, slightly detuned against each other so it breathes
+    [scaleNote(0, -2), scaleNote(3, -2)].forEach((midi, i) => {
+      const osc = ctx.createOscillator();
+      osc.type = 'sine';
+      osc.frequency.value = midiToHz(midi);
+      osc.detune.value = i === 0 ? -4 : 4;
+      osc.connect(filter);
+      osc.start();
+    });
+  }
+
+  private chime(ctx: AudioContext, out: AudioNode, at: number, frequency: number) {
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, at);
+    gain.gain.linearRampToValueAtTime(CHIME_LEVEL * (0.5 + this.random() * 0.5), at + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + 1.8);
+
+    const pan = ctx.createStereoPanner();
+    pan.pan.value = this.random() * 1.6 - 0.8;
+    gain.connect(pan).connect(out);
+
+    // Fundamental plus an inharmonic partial gives a small bell
+    [1, 2.76].forEach((ratio, i) => {
+      const osc = ctx.createOscillator();
+      osc.type = 'sine';
+      osc.frequency.value = frequency * ratio;
+      const partial = ctx.createGain();
+      partial.gain.value = i === 0 ? 1 : 0.25;
+      osc.connect(partial).connect(gain);
+      osc.start(at);
+      osc.stop(at + 2);
+    });
+  }
+}
@@ -0,0 +1,120 @@
+import { DandelionTheme } from '../types';
+import { BUILT_IN_THEMES, isHexColor } from './themes';
+
+const STORAGE_KEY = 'breathing-dandelion.themes';
+const THEME_FILE_VERSION = 1;
+
+// Shareable palette file
+export interface ThemeFile {
+  version: number;
+  themes: DandelionTheme[];
+}
+
+const builtInIds = new Set(BUILT_IN_THEMES.map(t => t.id));
+
+export const newThemeId = () => `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Copies a theme as a new user theme, ready to edit
+export const duplicateTheme = (theme: DandelionTheme, name = `${theme.name} Copy`): DandelionTheme => ({
+  id: newThemeId(),
+  name,
+  seed: { ...theme.seed },
+  sparkle: theme.sparkle,
+  stem: { ...theme.stem },
+  sky: { ...theme.sky }
+});
+
+// Checks one entry of an imported file and strips anything that isn't part of a theme
+const readTheme = (value: unknown, index: number): DandelionTheme => {
+  const t = value as DandelionTheme;
+  const where = `Theme ${index + 1}`;
+  if (typeof t !== 'object' || t === null || typeof t.id !== 'string' || typeof t.name !== 'string') {
+    throw new Error(`${where} needs an id and a name`);
+  }
+  const colors = [t.seed?.tip, t.seed?.mid, t.seed?.core, t.sparkle, t.stem?.base, t.stem?.mid, t.sky?.top, t.sky?.middle, t.sky?.bottom];
+  if (!colors.every(isHexColor)) {
+    throw new Error(`${where} ("${t.name}") has a missing or invalid color; colors must be #rrggbb`);
+  }
+  return {
+    id: t.id,
+    name: t.name.slice(0, 40),
+    seed: { tip: t.seed.tip, mid: t.seed.mid, core: t.seed.core },
+    sparkle: t.sparkle,
+    stem: { base: t.stem.base, mid: t.stem.mid },
+    sky: { top: t.sky.top, middle: t.sky.middle, bottom: t.sky.bottom }
+  };
+};
+
+export const parseThemes = (json: string): DandelionTheme[] => {
+  const file = JSON.parse(json) as ThemeFile;
+  if (typeof file !== 'object' || file === null || !Array.isArray(file.themes)) {
+    throw new Error("Not a dandelion theme file");
+  }
+  if (file.version !== THEME_FILE_VERSION) {
+    throw new Error(`Unsupported theme file version ${file.version} (expected ${THEME_FILE_VERSION})`);
+  }
+  return file.themes.map(readTheme);
+};
+
+export const downloadThemes = (themes: DandelionTheme[]) => {
+  const file: ThemeFile = { version: THEME_FILE_VERSION, themes: themes.map(({ builtIn, ...theme }) => theme) };
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = 'dandelion-themes.json';
+  a.click();
+  // Not right away: the download may only start after click() has returned
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// User themes, kept alongside the built-ins
+export class ThemeService {
+  load(): DandelionTheme[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.error("Error loading themes:", error);
+      return [];
+    }
+  }
+
+  // Adds or replaces a theme. Returns the updated user themes.
+  saveTheme(theme: DandelionTheme): DandelionTheme[] {
+    const themes = this.load();
+    const index = themes.findIndex(t => t.id === theme.id);
+    if (index >= 0) themes[index] = theme;
+    else themes.push(theme);
+    this.save(themes);
+    return themes;
+  }
+
+  deleteTheme(id: string): DandelionTheme[] {
+    const themes = this.load().filter(t => t.id !== id);
+    this.save(themes);
+    return themes;
+  }
+
+  // Merges themes from a shared file. A theme with an id we already have replaces it,
+  // so re-importing an updated palette updates it; built-in ids can't be overwritten.
+  importThemes(imported: DandelionTheme[]): DandelionTheme[] {
+    const themes = this.load();
+    imported.forEach(theme => {
+      const incoming = builtInIds.has(theme.id) ? { ...theme, id: newThemeId() } : theme;
+      const index = themes.findIndex(t => t.id === incoming.id);
+      if (index >= 0) themes[index] = incoming;
+      else themes.push(incoming);
+    });
+    this.save(themes);
+    return themes;
+  }
+
+  private save(themes: DandelionTheme[]) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(themes));
+    } catch (error) {
+      console.error("Error saving themes:", error);
+    }
+  }
+}
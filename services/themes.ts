@@ -0,0 +1,81 @@
+import { DandelionColor, DandelionTheme } from '../types';
+
+// Each color is an "r, g, b" string so it can be dropped straight into rgba()
+export interface ThemeColors {
+  tip: string;
+  mid: string;
+  core: string;
+  sparkle: string;
+  stemBase: string;
+  stemMid: string;
+}
+
+// Leafy stem and the dusk sky every built-in theme shares
+const STEM = { base: '#3b6e3b', mid: '#8cd66f' };
+// Deep Space -> Atmospheric Blue -> Horizon Glow
+const SKY = { top: '#0b1026', middle: '#2b32b2', bottom: '#ffd4b2' };
+
+const builtIn = (id: DandelionColor, name: string, tip: string, mid: string, core: string, sparkle: string): DandelionTheme => ({
+  id,
+  name,
+  builtIn: true,
+  seed: { tip, mid, core },
+  sparkle,
+  stem: STEM,
+  sky: SKY
+});
+
+// Enhanced colors for 'screen' blending mode on dark background
+export const BUILT_IN_THEMES: DandelionTheme[] = [
+  builtIn('white', 'White', '#ffffff', '#dcdce6', '#c8c8d2', '#ffffff'),
+  builtIn('deepBlue', 'Deep Blue', '#5d7fe5', '#496bd1', '#3557bd', '#a3c5ff'),
+  builtIn('lavender', 'Lavender', '#9899ee', '#8485da', '#7071c6', '#cacbff'),
+  builtIn('periwinkle', 'Periwinkle', '#b7c2ed', '#a3aed9', '#8f9ac5', '#d5e0ff'),
+  builtIn('pale', 'Pale', '#fbe8fd', '#e7d4e9', '#d3c0d5', '#ffffff'),
+  builtIn('pink', 'Pink', '#fdbbdb', '#e9a7c7', '#d593b3', '#ffd9ef')
+];
+
+export const DEFAULT_THEME = BUILT_IN_THEMES[0];
+
+export const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+// "#rrggbb" to "r, g, b"
+export const hexToRgb = (hex: string): string => {
+  const n = parseInt(hex.slice(1), 16);
+  return `${(n >> 16) & 255}, ${(n >> 8) & 255}, ${n & 255}`;
+};
+
+// Renderers hold on to the colors object (the WebGL backend caches by it), so each
+// theme converts once and keeps the same object until the theme itself is replaced
+const colorCache = new WeakMap<DandelionTheme, ThemeColors>();
+
+export const colorsOf = (theme: DandelionTheme): ThemeColors => {
+  let colors = colorCache.get(theme);
+  if (!colors) {
+    colors = {
+      tip: hexToRgb(theme.seed.tip),
+      mid: hexToRgb(theme.seed.mid),
+      core: hexToRgb(theme.seed.core),
+      sparkle: hexToRgb(theme.sparkle),
+      stemBase: hexToRgb(theme.stem.base),
+      stemMid: hexToRgb(theme.stem.mid)
+    };
+    colorCache.set(theme, colors);
+  }
+  return colors;
+};
+
+// Theme lookup that never fails; deleted themes fall back to the default
+export const findTheme = (themes: Record<string, DandelionTheme>, id: string): DandelionTheme =>
+  themes[id] ?? DEFAULT_THEME;
+
+// CSS background for the page behind the canvases
+export const skyGradient = (theme: DandelionTheme) =>
+  `linear-gradient(to bottom, ${theme.sky.top} 0%, ${theme.sky.middle} 60%, ${theme.sky.bottom} 100%)`;
+
+// "r, g, b" to 0-1 floats, for the WebGL renderer
+export const parseRgb = (rgb: string): [number, number, number] => {
+  const [r, g, b] = rgb.split(',').map(v => Number(v.trim()) / 255);
+  return [r, g, b];
+};
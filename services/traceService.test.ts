@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TracePlayer, TraceRecorder } from './traceService';
+import { DandelionScene, SceneEvent } from './dandelionScene';
+import { IDLE_SENSOR_FRAME } from './sensorStore';
+import { seededRandom } from './random';
+import { FlowerSpec, GameState, SensorFrame, SensorTrace } from '../types';
+
+vi.stubGlobal('navigator', { userAgent: 'test' });
+
+const FLOWERS: FlowerSpec[] = [
+  { id: 'center', x: 0.5, scale: 1, theme: 'white' },
+  { id: 'left', x: 0.2, scale: 0.7, theme: 'lavender' }
+];
+const LAYOUT = { width: 800, height: 600, displayScale: 1 };
+
+// What the canvas does with each sensor frame: restart when the seed changes, then step
+const canvasFor = (onStep: (dt: number, frame: SensorFrame) => void, onEvent: (event: SceneEvent) => void) => {
+  const scene = new DandelionScene(Math.random, 200, 50);
+  let applied: SensorFrame['sceneSeed'];
+  return (frame: SensorFrame, wallDt: number) => {
+    if (frame.sceneSeed !== applied) {
+      applied = frame.sceneSeed;
+      if (applied) scene.reset(seededRandom(applied.value));
+    }
+    scene.setFlowers(FLOWERS);
+    const dt = frame.dt ?? wallDt;
+    scene.advance(dt, { sway: frame.sway, blow: frame.blow, nod: frame.nod, tilt: frame.tilt, blowThreshold: 0.75, releaseEnabled: true }, LAYOUT);
+    onStep(dt, frame);
+    scene.drainEvents().filter(e => e.type !== 'seedLanded').forEach(onEvent);
+  };
+};
+
+// A breath across both flowers at an uneven frame rate, recorded from a fresh seed
+const record = () => {
+  const recorder = new TraceRecorder();
+  const events: SceneEvent[] = [];
+  const step = canvasFor((dt, frame) => recorder.recordFrame(dt, frame), event => {
+    if (event.type === 'stateChange') recorder.recordState(event.state, event.flowerId);
+    events.push(event);
+  });
+  const jitter = seededRandom(3);
+  step(IDLE_SENSOR_FRAME, 16); // the scene has been running before recording starts
+  events.length = 0;
+
+  const scene = { value: 42 };
+  recorder.start(scene);
+  for (let i = 0; i < 400; i++) {
+    const blow = i > 40 && i < 120 ? 1 : 0;
+    step({ ...IDLE_SENSOR_FRAME, sway: Math.sin(i / 25), blow, sceneSeed: scene }, 8 + jitter() * 20);
+  }
+  return { trace: recorder.stop(0.75), events };
+};
+
+const replay = async (trace: SensorTrace) => {
+  let scene: SensorFrame['sceneSeed'];
+  const player = new TracePlayer(trace, false, () => { scene = { value: trace.seed! }; });
+  const events: SceneEvent[] = [];
+  const divergences: (number | null)[] = [];
+  const step = canvasFor(() => {}, event => {
+    if (event.type === 'stateChange') divergences.push(player.checkState(event.state, event.flowerId));
+    events.push(event);
+  });
+  step({ ...IDLE_SENSOR_FRAME, blow: 1 }, 16); // a different history before the replay
+  events.length = 0;
+  await player.start();
+  // The display runs at its own rate; the recorded frame times drive the scene
+  while (!player.isFinished()) step({ ...IDLE_SENSOR_FRAME, ...player.read(), sceneSeed: scene }, 7);
+  return { events, divergences };
+};
+
+describe('TracePlayer', () => {
+  it('replays a recorded trace into the same events', async () => {
+    const { trace, events } = record();
+    expect(trace.events.map(e => e.state)).toContain(GameState.BLOWN);
+
+    const replayed = await replay(trace);
+    expect(replayed.events).toEqual(events);
+    expect(replayed.divergences.every(d => d === null)).toBe(true);
+  });
+
+  it('reports a divergence once per pass', () => {
+    const trace: SensorTrace = {
+      version: 1, createdAt: '', userAgent: '', blowThreshold: 0.75,
+      frames: [{ t: 16, dt: 16, sway: 0, blow: 0 }, { t: 32, dt: 16, sway: 0, blow: 0 }],
+      events: [{ t: 16, state: GameState.BLOWN }]
+    };
+    const player = new TracePlayer(trace);
+    player.read();
+    expect(player.checkState(GameState.IDLE)).toBe(16);
+    expect(player.checkState(GameState.IDLE)).toBeNull();
+    player.read();
+    player.read(); // wraps around
+    expect(player.checkState(GameState.IDLE)).toBe(16);
+  });
+});
@@ -0,0 +1,162 @@
+import { InputSource } from './inputSources';
+import { GameState, InputSignal, SensorFrame, SensorTrace, TraceFrame } from '../types';
+
+export const TRACE_VERSION = 1;
+
+// For timestamps, which are only there to read
+const round = (v: number) => Math.round(v * 10000) / 10000;
+
+// Captures the sensor stream as the canvas consumed it, frame by frame, plus its state changes
+export class TraceRecorder {
+  private recording = false;
+  private frames: TraceFrame[] = [];
+  private events: SensorTrace['events'] = [];
+  private scene: { value: number } | undefined;
+  private started = false;
+  private elapsed = 0;
+
+  // `scene` is the restart the recording begins with. Nothing is kept until the canvas steps
+  // the restarted scene, so a replay starts from exactly the same flowers.
+  start(scene?: { value: number }) {
+    this.scene = scene;
+    this.started = scene === undefined;
+    this.elapsed = 0;
+    this.frames = [];
+    this.events = [];
+    this.recording = true;
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  // Called after each simulation step with the frame time and input it used. Both are kept
+  // exactly; rounding them would send a replay down a slightly different path.
+  recordFrame(dt: number, frame: SensorFrame) {
+    if (!this.recording) return;
+    if (!this.started) {
+      if (frame.sceneSeed !== this.scene) return;
+      this.started = true;
+    }
+    this.elapsed += dt;
+    this.frames.push({
+      t: round(this.elapsed),
+      dt,
+      sway: frame.sway,
+      blow: frame.blow,
+      nod: frame.nod,
+      tilt: frame.tilt
+    });
+  }
+
+  recordState(state: GameState, flower?: string) {
+    if (!this.recording || !this.started) return;
+    const t = round(this.elapsed);
+    this.events.push(flower ? { t, state, flower } : { t, state });
+  }
+
+  stop(blowThreshold: number): SensorTrace {
+    this.recording = false;
+    return {
+      version: TRACE_VERSION,
+      createdAt: new Date().toISOString(),
+      userAgent: navigator.userAgent,
+      blowThreshold,
+      ...(this.scene && { seed: this.scene.value }),
+      frames: this.frames,
+      events: this.events
+    };
+  }
+}
+
+export const downloadTrace = (trace: SensorTrace) => {
+  const blob = new Blob([JSON.stringify(trace)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `dandelion-trace-${trace.createdAt.replace(/[:.]/g, '-')}.json`;
+  a.click();
+  // Released a moment later; some browsers start the download after click() returns
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const parseTrace = (json: string): SensorTrace => {
+  const trace = JSON.parse(json) as SensorTrace;
+  if (typeof trace !== 'object' || trace === null || !Array.isArray(trace.frames)) {
+    throw new Error("Not a dandelion sensor trace");
+  }
+  if (trace.version !== TRACE_VERSION) {
+    throw new Error(`Unsupported trace version ${trace.version} (expected ${TRACE_VERSION})`);
+  }
+  if (trace.frames.length === 0) {
+    throw new Error("Trace has no frames");
+  }
+  return trace;
+};
+
+// Feeds a saved trace back in place of live sensors, one recorded frame per read, each
+// carrying its recorded frame time so the scene steps exactly as it did while recording
+// (on a display faster than the recording's, that plays faster than real time).
+// Loops by default so a trace can double as a demo; `onRestart` runs at the top of each pass,
+// so the scene can be restarted from the trace's seed.
+export class TracePlayer implements InputSource {
+  readonly id = 'replay';
+  readonly swayHint = 'hint.replay';
+  readonly blowHint = 'hint.replay';
+
+  private index = 0;
+  // Recorded state changes are checked off in order as the replay produces them
+  private nextEvent = 0;
+  private diverged = false;
+
+  constructor(
+    private readonly trace: SensorTrace,
+    private readonly loop = true,
+    private readonly onRestart: () => void = () => {}
+  ) {}
+
+  getTrace(): SensorTrace {
+    return this.trace;
+  }
+
+  async start() {
+    this.restart();
+  }
+
+  // Compares a state change from the replay with the recording. Returns the trace time (ms)
+  // of the first one that doesn't match, once per pass; null while they agree.
+  checkState(state: GameState, flower?: string): number | null {
+    if (this.diverged) return null;
+    const expected = this.trace.events[this.nextEvent++];
+    if (expected && expected.state === state && (expected.flower === undefined || expected.flower === flower)) return null;
+    this.diverged = true;
+    return expected?.t ?? this.trace.frames[Math.max(0, this.index - 1)].t;
+  }
+
+  isFinished(): boolean {
+    return !this.loop && this.index >= this.trace.frames.length;
+  }
+
+  read(): InputSignal {
+    const frames = this.trace.frames;
+    if (this.index >= frames.length) {
+      if (!this.loop) return { sway: 0, blow: 0, nod: 0, tilt: 0 };
+      this.restart();
+    }
+
+    const frame = frames[this.index];
+    // Older traces have no frame times; they're stepped by the gaps between frames
+    const dt = frame.dt ?? frame.t - (this.index > 0 ? frames[this.index - 1].t : 0);
+    this.index++;
+    return { sway: frame.sway, blow: frame.blow, nod: frame.nod ?? 0, tilt: frame.tilt ?? 0, dt };
+  }
+
+  stop() {}
+
+  private restart() {
+    this.index = 0;
+    this.nextEvent = 0;
+    this.diverged = false;
+    this.onRestart();
+  }
+}
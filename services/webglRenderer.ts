@@ -0,0 +1,627 @@
+import { Particle } from '../types';
+import { DandelionRenderer, FluffParticle, RenderFrame, SeedProjection, cameraFor, projectSeed } from './renderer';
+import { ThemeColors, parseRgb } from './themes';
+
+// WebGL2 backend. Seeds, sparkles and fluff are instanced quads, so a frame is a handful of
+// draw calls however many seeds there are. Seeds and sparkles use screen blending, which is
+// order independent, so nothing needs depth sorting.
+
+const STEM_SEGMENTS = 24;
+const MAX_HAIRS = 8;
+
+// Instance layouts, in floats
+const SEGMENT_STRIDE = 9; // from.xy, to.xy, width, rgba
+const DISC_STRIDE = 4;    // center.xy, radius, alpha
+const SEED_STRIDE = 8;    // tip.xy, base.xy, scale, alpha, pappus size, seed size
+
+const SEGMENT_VS = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec2 a_from;
+layout(location = 2) in vec2 a_to;
+layout(location = 3) in float a_width;
+layout(location = 4) in vec4 a_color;
+uniform vec2 u_resolution;
+uniform vec2 u_origin;
+uniform float u_rotation;
+uniform float u_scale;
+uniform vec3 u_tint;
+out vec4 v_color;
+out float v_across;
+out float v_halfWidth;
+
+vec2 place(vec2 p) {
+  float c = cos(u_rotation);
+  float s = sin(u_rotation);
+  p *= u_scale;
+  return u_origin + vec2(p.x * c - p.y * s, p.x * s + p.y * c);
+}
+
+void main() {
+  vec2 a = place(a_from);
+  vec2 b = place(a_to);
+  vec2 dir = b - a;
+  float len = length(dir);
+  dir = len > 0.0 ? dir / len : vec2(1.0, 0.0);
+  vec2 normal = vec2(-dir.y, dir.x);
+
+  // Lines thinner than a pixel are drawn a pixel wide and fainter instead
+  float w = max(a_width, 1.0);
+  float extent = w * 0.5 + 1.0;
+  vec2 along = mix(a - dir * w * 0.5, b + dir * w * 0.5, a_corner.x);
+  vec2 pos = along + normal * a_corner.y * extent;
+
+  v_across = a_corner.y * extent;
+  v_halfWidth = w * 0.5;
+  v_color = vec4(a_color.rgb * u_tint, a_color.a * min(a_width, 1.0));
+
+  vec2 clip = pos / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}`;
+
+const SEGMENT_FS = `#version 300 es
+precision mediump float;
+in vec4 v_color;
+in float v_across;
+in float v_halfWidth;
+out vec4 outColor;
+
+void main() {
+  float a = v_color.a * clamp(v_halfWidth + 0.5 - abs(v_across), 0.0, 1.0);
+  outColor = vec4(v_color.rgb * a, a);
+}`;
+
+const DISC_VS = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec2 a_center;
+layout(location = 2) in float a_radius;
+layout(location = 3) in float a_alpha;
+uniform vec2 u_resolution;
+out vec2 v_local;
+out float v_radius;
+out float v_alpha;
+
+void main() {
+  float extent = a_radius + 1.0;
+  v_local = a_corner * extent;
+  v_radius = a_radius;
+  v_alpha = a_alpha;
+  vec2 clip = (a_center + v_local) / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}`;
+
+const DISC_FS = `#version 300 es
+precision mediump float;
+uniform vec3 u_color;
+in vec2 v_local;
+in float v_radius;
+in float v_alpha;
+out vec4 outColor;
+
+void main() {
+  float a = v_alpha * clamp(v_radius + 0.5 - length(v_local), 0.0, 1.0);
+  if (a <= 0.0) discard;
+  outColor = vec4(u_color * a, a);
+}`;
+
+// The receptacle: mode 0 fills the gradient sphere, mode 1 draws the rim and its glow
+const CORE_VS = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+uniform vec2 u_resolution;
+uniform vec2 u_center;
+uniform float u_extent;
+out vec2 v_local;
+
+void main() {
+  v_local = a_corner * u_extent;
+  vec2 clip = (u_center + v_local) / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}`;
+
+const CORE_FS = `#version 300 es
+precision mediump float;
+uniform int u_mode;
+uniform float u_radius;
+uniform float u_glow;
+uniform vec3 u_core;
+uniform vec3 u_mid;
+uniform vec3 u_tip;
+in vec2 v_local;
+out vec4 outColor;
+
+void main() {
+  float d = length(v_local);
+  if (u_mode == 0) {
+    float t = clamp((d - 5.0) / (u_radius - 5.0), 0.0, 1.0);
+    float a = clamp(u_radius - 2.0 + 0.5 - d, 0.0, 1.0);
+    outColor = vec4(mix(u_core, u_mid, t) * a, a);
+    return;
+  }
+
+  float ringA = 0.5 * clamp(1.0 - abs(d - u_radius), 0.0, 1.0);
+  // Canvas shadowBlur is a gaussian with sigma = blur / 2, tinted at 0.8 alpha
+  float glowA = 0.0;
+  if (u_glow > 0.0) {
+    float sigma = u_glow * 0.5;
+    float off = d - u_radius;
+    glowA = 0.4 * exp(-off * off / (2.0 * sigma * sigma)) / (sigma * 2.5066);
+  }
+  vec3 color = u_mid * ringA + u_tip * glowA * (1.0 - ringA);
+  float a = ringA + glowA * (1.0 - ringA);
+  if (a <= 0.0) discard;
+  outColor = vec4(color, a);
+}`;
+
+// One quad per seed, centered on the pappus tip. The fragment shader draws the stalk, body,
+// hair fan and tip dot analytically and screen-combines them like the 2D path does.
+const SEED_VS = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec2 a_tip;
+layout(location = 2) in vec2 a_base;
+layout(location = 3) in vec4 a_params;
+uniform vec2 u_resolution;
+out vec2 v_local;
+out vec2 v_base;
+out vec4 v_params;
+
+void main() {
+  vec2 stalk = a_base - a_tip;
+  float scale = a_params.x;
+  float reach = max(length(stalk) + 1.5 * scale, a_params.z * (1.0 + 0.2 * a_params.w)) + 2.0;
+  v_local = a_corner * reach;
+  v_base = stalk;
+  v_params = a_params;
+  vec2 clip = (a_tip + v_local) / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}`;
+
+const SEED_FS = `#version 300 es
+precision mediump float;
+uniform vec3 u_mid;
+uniform vec3 u_tip;
+uniform int u_hairs;
+in vec2 v_local;
+in vec2 v_base;
+in vec4 v_params;
+out vec4 outColor;
+
+vec4 acc = vec4(0.0);
+
+float segDist(vec2 p, vec2 a, vec2 b) {
+  vec2 pa = p - a;
+  vec2 ba = b - a;
+  float h = clamp(dot(pa, ba) / max(dot(ba, ba), 1e-4), 0.0, 1.0);
+  return length(pa - ba * h);
+}
+
+float lineCov(float d, float w) {
+  return clamp(max(w, 1.0) * 0.5 + 0.5 - d, 0.0, 1.0) * min(w, 1.0);
+}
+
+void screenLayer(vec3 color, float a) {
+  vec4 src = vec4(color * a, a);
+  acc = acc + src - acc * src;
+}
+
+void main() {
+  float scale = v_params.x;
+  float alpha = v_params.y;
+  float pappus = v_params.z;
+  float size = v_params.w;
+  vec2 p = v_local;
+  vec2 stalkDir = -v_base;
+  float stalkAngle = dot(stalkDir, stalkDir) > 1e-6 ? atan(stalkDir.y, stalkDir.x) : 0.0;
+
+  // Stalk
+  screenLayer(u_mid, alpha * 0.8 * lineCov(segDist(p, v_base, vec2(0.0)), 0.6 * scale));
+
+  // Body: an ellipse at the base aligned with the stalk
+  vec2 q = p - v_base;
+  float c = cos(stalkAngle);
+  float s = sin(stalkAngle);
+  vec2 r = vec2(c * q.x + s * q.y, -s * q.x + c * q.y);
+  float e = length(r / vec2(1.5 * scale, scale));
+  screenLayer(u_mid, alpha * clamp((1.0 - e) * scale + 0.5, 0.0, 1.0));
+
+  // Pappus fan; the hairs are one path in 2D, so they don't stack
+  if (u_hairs > 1) {
+    int fan = u_hairs - 1;
+    float hair = 0.0;
+    for (int k = 0; k < ${MAX_HAIRS}; k++) {
+      if (k > fan) break;
+      float range = (float(k) / float(fan) - 0.5) * 2.0;
+      float angle = stalkAngle + range * 0.8;
+      float len = pappus * (0.8 + float(k - (k / 3) * 3) * 0.1 + size * 0.2);
+      hair = max(hair, lineCov(segDist(p, vec2(0.0), vec2(cos(angle), sin(angle)) * len), 0.5 * scale));
+    }
+    screenLayer(u_tip, alpha * 0.6 * hair);
+  }
+
+  // Tip dot
+  screenLayer(u_tip, alpha * 0.8 * clamp(1.5 * scale + 0.5 - length(p), 0.0, 1.0));
+
+  if (acc.a <= 0.0) discard;
+  outColor = acc;
+}`;
+
+type Rgb = [number, number, number];
+
+const WHITE: Rgb = [1, 1, 1];
+
+interface ThemeRgb {
+  tip: Rgb;
+  mid: Rgb;
+  core: Rgb;
+  sparkle: Rgb;
+  stemBase: Rgb;
+  stemMid: Rgb;
+}
+
+interface Program {
+  program: WebGLProgram;
+  uniforms: Record<string, WebGLUniformLocation | null>;
+}
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string): WebGLShader => {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compile failed: ${log}`);
+  }
+  return shader;
+};
+
+const createProgram = (gl: WebGL2RenderingContext, vs: string, fs: string, uniformNames: string[]): Program => {
+  const program = gl.createProgram()!;
+  const vertex = compileShader(gl, gl.VERTEX_SHADER, vs);
+  const fragment = compileShader(gl, gl.FRAGMENT_SHADER, fs);
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  gl.deleteShader(vertex);
+  gl.deleteShader(fragment);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Program link failed: ${gl.getProgramInfoLog(program)}`);
+  }
+  const uniforms: Program['uniforms'] = {};
+  uniformNames.forEach(name => {
+    uniforms[name] = gl.getUniformLocation(program, name);
+  });
+  return { program, uniforms };
+};
+
+// Grows a Float32Array to at least `length`, keeping nothing (it's refilled every frame)
+const ensureCapacity = (array: Float32Array, length: number) =>
+  array.length >= length ? array : new Float32Array(Math.max(length, array.length * 2));
+
+const mixRgb = (a: Rgb, b: Rgb, t: number): Rgb => [
+  a[0] + (b[0] - a[0]) * t,
+  a[1] + (b[1] - a[1]) * t,
+  a[2] + (b[2] - a[2]) * t
+];
+
+export class WebGLRenderer implements DandelionRenderer {
+  readonly backend = 'webgl';
+
+  private readonly gl: WebGL2RenderingContext;
+  private lost = false;
+
+  private segmentProgram!: Program;
+  private discProgram!: Program;
+  private coreProgram!: Program;
+  private seedProgram!: Program;
+
+  private stemVao!: WebGLVertexArrayObject;
+  private fluffVao!: WebGLVertexArrayObject;
+  private sparkleVao!: WebGLVertexArrayObject;
+  private seedVao!: WebGLVertexArrayObject;
+  private coreVao!: WebGLVertexArrayObject;
+
+  private stemBuffer!: WebGLBuffer;
+  private fluffBuffer!: WebGLBuffer;
+  private sparkleBuffer!: WebGLBuffer;
+  private seedBuffer!: WebGLBuffer;
+
+  private stemData = new Float32Array(STEM_SEGMENTS * 2 * SEGMENT_STRIDE);
+  private sparkleData = new Float32Array(0);
+  private seedData = new Float32Array(0);
+  private readonly seed: SeedProjection = { baseX: 0, baseY: 0, tipX: 0, tipY: 0, scale: 0, alpha: 0 };
+
+  // The fluff never moves relative to the head, so its buffer is only rebuilt when it changes.
+  // It's stored white and tinted per flower.
+  private fluffSource: FluffParticle[] | null = null;
+  private fluffCount = 0;
+
+  private readonly themeRgb = new WeakMap<ThemeColors, ThemeRgb>();
+
+  // Check on a throwaway canvas first: once a canvas has a WebGL context it can never get a
+  // 2D one, so the real canvas is only claimed when WebGL2 will work
+  static isSupported(): boolean {
+    try {
+      return !!document.createElement('canvas').getContext('webgl2');
+    } catch {
+      return false;
+    }
+  }
+
+  constructor(private readonly canvas: HTMLCanvasElement) {
+    const gl = canvas.getContext('webgl2', { alpha: true, premultipliedAlpha: true, antialias: false });
+    if (!gl) throw new Error("WebGL2 not supported");
+    this.gl = gl;
+    this.init();
+
+    canvas.addEventListener('webglcontextlost', this.onContextLost);
+    canvas.addEventListener('webglcontextrestored', this.onContextRestored);
+  }
+
+  private onContextLost = (e: Event) => {
+    // Prevent default so the browser will give the context back
+    e.preventDefault();
+    this.lost = true;
+  };
+
+  private onContextRestored = () => {
+    this.fluffSource = null;
+    this.init();
+    this.lost = false;
+  };
+
+  private init() {
+    const gl = this.gl;
+    const resolution = ['u_resolution'];
+    this.segmentProgram = createProgram(gl, SEGMENT_VS, SEGMENT_FS, [...resolution, 'u_origin', 'u_rotation', 'u_scale', 'u_tint']);
+    this.discProgram = createProgram(gl, DISC_VS, DISC_FS, [...resolution, 'u_color']);
+    this.coreProgram = createProgram(gl, CORE_VS, CORE_FS, [...resolution, 'u_center', 'u_extent', 'u_mode', 'u_radius', 'u_glow', 'u_core', 'u_mid', 'u_tip']);
+    this.seedProgram = createProgram(gl, SEED_VS, SEED_FS, [...resolution, 'u_mid', 'u_tip', 'u_hairs']);
+
+    // Shared corner buffers: segments run 0..1 along and -1..1 across, quads are -1..1
+    const segmentCorners = this.createBuffer(new Float32Array([0, -1, 1, -1, 0, 1, 1, 1]));
+    const quadCorners = this.createBuffer(new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]));
+
+    this.stemBuffer = this.createBuffer(this.stemData);
+    this.fluffBuffer = this.createBuffer(new Float32Array(0));
+    this.sparkleBuffer = this.createBuffer(new Float32Array(0));
+    this.seedBuffer = this.createBuffer(new Float32Array(0));
+
+    this.stemVao = this.createVao(segmentCorners, this.stemBuffer, [2, 2, 1, 4]);
+    this.fluffVao = this.createVao(segmentCorners, this.fluffBuffer, [2, 2, 1, 4]);
+    this.sparkleVao = this.createVao(quadCorners, this.sparkleBuffer, [2, 1, 1]);
+    this.seedVao = this.createVao(quadCorners, this.seedBuffer, [2, 2, 4]);
+    this.coreVao = this.createVao(quadCorners, null, []);
+
+    gl.enable(gl.BLEND);
+    gl.disable(gl.DEPTH_TEST);
+  }
+
+  private createBuffer(data: Float32Array): WebGLBuffer {
+    const gl = this.gl;
+    const buffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data, gl.DYNAMIC_DRAW);
+    return buffer;
+  }
+
+  // Location 0 is the per-vertex corner; the rest are per-instance attributes of the given sizes
+  private createVao(corners: WebGLBuffer, instances: WebGLBuffer | null, sizes: number[]): WebGLVertexArrayObject {
+    const gl = this.gl;
+    const vao = gl.createVertexArray()!;
+    gl.bindVertexArray(vao);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, corners);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+    if (instances) {
+      gl.bindBuffer(gl.ARRAY_BUFFER, instances);
+      const stride = sizes.reduce((sum, size) => sum + size, 0) * 4;
+      let offset = 0;
+      sizes.forEach((size, i) => {
+        gl.enableVertexAttribArray(i + 1);
+        gl.vertexAttribPointer(i + 1, size, gl.FLOAT, false, stride, offset);
+        gl.vertexAttribDivisor(i + 1, 1);
+        offset += size * 4;
+      });
+    }
+
+    gl.bindVertexArray(null);
+    return vao;
+  }
+
+  resize(width: number, height: number) {
+    this.canvas.width = width;
+    this.canvas.height = height;
+  }
+
+  begin() {
+    if (this.lost) return;
+    const gl = this.gl;
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+  }
+
+  render({ sim, theme, quality, fluff, displayScale }: RenderFrame) {
+    if (this.lost) return;
+    const gl = this.gl;
+    const { width, height } = this.canvas;
+    const colors = this.getThemeRgb(theme);
+    const { headX, headY, angle } = sim.geometry;
+    const radius = 28 * displayScale;
+
+    // Stem and core: ordinary alpha blending (premultiplied)
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    this.drawStem(sim.geometry, colors, displayScale, width, height);
+    this.drawCore(0, headX, headY, radius, 0, colors, width, height);
+    this.drawFluff(fluff, colors, headX, headY, angle, displayScale, width, height);
+    this.drawCore(1, headX, headY, radius, quality.glow ? 20 * displayScale : 0, colors, width, height);
+
+    // Sparkles and seeds: screen blending, so draw order doesn't matter
+    gl.blendFuncSeparate(gl.ONE, gl.ONE_MINUS_SRC_COLOR, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    this.drawSparkles(sim, colors, width, height);
+    this.drawSeeds(sim, colors, quality.pappusHairs, headX, headY, displayScale, width, height);
+
+    gl.bindVertexArray(null);
+  }
+
+  private getThemeRgb(theme: ThemeColors): ThemeRgb {
+    let rgb = this.themeRgb.get(theme);
+    if (!rgb) {
+      rgb = {
+        tip: parseRgb(theme.tip),
+        mid: parseRgb(theme.mid),
+        core: parseRgb(theme.core),
+        sparkle: parseRgb(theme.sparkle),
+        stemBase: parseRgb(theme.stemBase),
+        stemMid: parseRgb(theme.stemMid)
+      };
+      this.themeRgb.set(theme, rgb);
+    }
+    return rgb;
+  }
+
+  private useSegments(originX: number, originY: number, rotation: number, scale: number, tint: Rgb, width: number, height: number) {
+    const gl = this.gl;
+    const { program, uniforms } = this.segmentProgram;
+    gl.useProgram(program);
+    gl.uniform2f(uniforms.u_resolution, width, height);
+    gl.uniform2f(uniforms.u_origin, originX, originY);
+    gl.uniform1f(uniforms.u_rotation, rotation);
+    gl.uniform1f(uniforms.u_scale, scale);
+    gl.uniform3fv(uniforms.u_tint, tint);
+  }
+
+  // The quadratic stem as short segments, body first then the highlight on top
+  private drawStem(geometry: RenderFrame['sim']['geometry'], colors: ThemeRgb, displayScale: number, width: number, height: number) {
+    const gl = this.gl;
+    const { baseX, baseY, midX, midY, headX, headY } = geometry;
+    const data = this.stemData;
+    const point = (t: number) => {
+      const u = 1 - t;
+      return [u * u * baseX + 2 * u * t * midX + t * t * headX, u * u * baseY + 2 * u * t * midY + t * t * headY];
+    };
+
+    for (let i = 0; i < STEM_SEGMENTS; i++) {
+      const t0 = i / STEM_SEGMENTS;
+      const t1 = (i + 1) / STEM_SEGMENTS;
+      const [x0, y0] = point(t0);
+      const [x1, y1] = point(t1);
+      // Same stops as the 2D gradient: leafy base, vibrant middle, theme color at the head
+      const t = (t0 + t1) / 2;
+      const color = t < 0.5 ? mixRgb(colors.stemBase, colors.stemMid, t * 2) : mixRgb(colors.stemMid, colors.mid, (t - 0.5) * 2);
+
+      data.set([x0, y0, x1, y1, 8 * displayScale, color[0], color[1], color[2], 1], i * SEGMENT_STRIDE);
+      data.set([x0, y0, x1, y1, 2, 1, 1, 1, 0.1], (i + STEM_SEGMENTS) * SEGMENT_STRIDE);
+    }
+
+    this.useSegments(0, 0, 0, 1, WHITE, width, height);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.stemBuffer);
+    gl.bufferSubData(gl.ARRAY_BUFFER, 0, data);
+    gl.bindVertexArray(this.stemVao);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, STEM_SEGMENTS * 2);
+  }
+
+  private drawCore(mode: 0 | 1, headX: number, headY: number, radius: number, glow: number, colors: ThemeRgb, width: number, height: number) {
+    const gl = this.gl;
+    const { program, uniforms } = this.coreProgram;
+    gl.useProgram(program);
+    gl.uniform2f(uniforms.u_resolution, width, height);
+    gl.uniform2f(uniforms.u_center, headX, headY);
+    gl.uniform1f(uniforms.u_extent, radius + glow * 1.5 + 2);
+    gl.uniform1i(uniforms.u_mode, mode);
+    gl.uniform1f(uniforms.u_radius, radius);
+    gl.uniform1f(uniforms.u_glow, glow);
+    gl.uniform3fv(uniforms.u_core, colors.core);
+    gl.uniform3fv(uniforms.u_mid, colors.mid);
+    gl.uniform3fv(uniforms.u_tip, colors.tip);
+    gl.bindVertexArray(this.coreVao);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  }
+
+  private drawFluff(fluff: FluffParticle[], colors: ThemeRgb, headX: number, headY: number, angle: number, displayScale: number, width: number, height: number) {
+    const gl = this.gl;
+    if (fluff !== this.fluffSource) {
+      const data = new Float32Array(fluff.length * SEGMENT_STRIDE);
+      fluff.forEach((f, i) => {
+        const x1 = f.x + Math.cos(f.angle) * f.length;
+        const y1 = f.y + Math.sin(f.angle) * f.length;
+        data.set([f.x, f.y, x1, y1, 1.5, 1, 1, 1, f.alpha], i * SEGMENT_STRIDE);
+      });
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.fluffBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
+      this.fluffSource = fluff;
+      this.fluffCount = fluff.length;
+    }
+    if (this.fluffCount === 0) return;
+
+    // Local coordinates rotate with the head, like the 2D path's translate + rotate
+    this.useSegments(headX, headY, angle, displayScale, colors.mid, width, height);
+    gl.bindVertexArray(this.fluffVao);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, this.fluffCount);
+  }
+
+  private drawSparkles(sim: RenderFrame['sim'], colors: ThemeRgb, width: number, height: number) {
+    const gl = this.gl;
+    this.sparkleData = ensureCapacity(this.sparkleData, sim.sparkles.length * DISC_STRIDE);
+    const data = this.sparkleData;
+    let count = 0;
+    sim.sparkles.forEach(s => {
+      if (s.life <= 0) return;
+      const sScale = 500 / (500 + s.z);
+      if (sScale <= 0) return;
+      const o = count++ * DISC_STRIDE;
+      data[o] = s.x;
+      data[o + 1] = s.y;
+      data[o + 2] = s.size * sScale;
+      data[o + 3] = (s.life / s.maxLife) * s.alpha;
+    });
+    if (count === 0) return;
+
+    const { program, uniforms } = this.discProgram;
+    gl.useProgram(program);
+    gl.uniform2f(uniforms.u_resolution, width, height);
+    gl.uniform3fv(uniforms.u_color, colors.sparkle);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.sparkleBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data.subarray(0, count * DISC_STRIDE), gl.DYNAMIC_DRAW);
+    gl.bindVertexArray(this.sparkleVao);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, count);
+  }
+
+  private drawSeeds(sim: RenderFrame['sim'], colors: ThemeRgb, pappusHairs: number, headX: number, headY: number, displayScale: number, width: number, height: number) {
+    const gl = this.gl;
+    const total = sim.particles.length + sim.drifting.length + sim.grounded.length;
+    this.seedData = ensureCapacity(this.seedData, total * SEED_STRIDE);
+    const data = this.seedData;
+    const seed = this.seed;
+    const camera = cameraFor(width, height);
+    let count = 0;
+    const addSeed = (p: Particle) => {
+      if (!projectSeed(p, headX, headY, camera, displayScale, seed)) return;
+      const o = count++ * SEED_STRIDE;
+      data[o] = seed.tipX;
+      data[o + 1] = seed.tipY;
+      data[o + 2] = seed.baseX;
+      data[o + 3] = seed.baseY;
+      data[o + 4] = seed.scale;
+      data[o + 5] = seed.alpha;
+      data[o + 6] = 10 * seed.scale * p.size * displayScale;
+      data[o + 7] = p.size;
+    };
+    sim.grounded.forEach(addSeed);
+    sim.drifting.forEach(addSeed);
+    sim.particles.forEach(addSeed);
+    if (count === 0) return;
+
+    const { program, uniforms } = this.seedProgram;
+    gl.useProgram(program);
+    gl.uniform2f(uniforms.u_resolution, width, height);
+    gl.uniform3fv(uniforms.u_mid, colors.mid);
+    gl.uniform3fv(uniforms.u_tip, colors.tip);
+    gl.uniform1i(uniforms.u_hairs, Math.min(pappusHairs, MAX_HAIRS));
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.seedBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data.subarray(0, count * SEED_STRIDE), gl.DYNAMIC_DRAW);
+    gl.bindVertexArray(this.seedVao);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, count);
+  }
+}
@@ -0,0 +1,145 @@
+import { Vector3 } from '../types';
+
+// Air flow for released seeds: slow turbulent eddies on top of a light breeze, plus whatever
+// push the user is still giving (breath drives seeds away and up, head sway steers sideways).
+// Velocities are in layout pixels per 60 Hz tick, like the rest of the simulation.
+
+// The eddies are sampled on a coarse grid and interpolated per seed, so the cost of the
+// noise doesn't grow with the seed count
+const GRID_X = 20;
+const GRID_Y = 14;
+const GRID_Z = 4;
+export const WIND_NEAR = -300;   // Depth range the grid covers; seeds beyond it get the edge values
+export const WIND_FAR = 1500;
+
+const NOISE_SCALE = 1 / 260;     // Eddies roughly this many pixels across
+const NOISE_SPEED = 0.00025;     // How quickly the eddies change shape, per ms
+const TURBULENCE = 1.1;          // Eddy strength
+const BREEZE = 0.35;             // Steady drift to the right
+const BREATH_PUSH = 5;           // Away from the viewer at full breath
+const BREATH_LIFT = 1.5;         // Upward at full breath
+const SWAY_PUSH = 3;             // Sideways at full head sway
+const DRIVE_SMOOTHING = 0.04;    // Per-tick easing, so a breath keeps carrying seeds for a moment after it stops
+
+export interface WindDrive {
+  breath: number; // 0 to 1
+  sway: number; // -1 to 1
+}
+
+const smooth = (t: number) => t * t * (3 - 2 * t);
+
+// Integer lattice hash to 0..1
+const hash = (x: number, y: number, z: number, seed: number) => {
+  let h = (x * 374761393 + y * 668265263 + z * 2147483647 + seed * 144665) | 0;
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+};
+
+// Smoothly interpolated value noise, 0 to 1
+const valueNoise = (x: number, y: number, z: number, seed: number) => {
+  const ix = Math.floor(x), iy = Math.floor(y), iz = Math.floor(z);
+  const fx = smooth(x - ix), fy = smooth(y - iy), fz = smooth(z - iz);
+  const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+  const x00 = lerp(hash(ix, iy, iz, seed), hash(ix + 1, iy, iz, seed), fx);
+  const x10 = lerp(hash(ix, iy + 1, iz, seed), hash(ix + 1, iy + 1, iz, seed), fx);
+  const x01 = lerp(hash(ix, iy, iz + 1, seed), hash(ix + 1, iy, iz + 1, seed), fx);
+  const x11 = lerp(hash(ix, iy + 1, iz + 1, seed), hash(ix + 1, iy + 1, iz + 1, seed), fx);
+  return lerp(lerp(x00, x10, fy), lerp(x01, x11, fy), fz);
+};
+
+export class WindField {
+  private readonly grid = new Float32Array(GRID_X * GRID_Y * GRID_Z * 3);
+  private readonly seed: number;
+  private breath = 0;
+  private sway = 0;
+
+  private nextLayer = 0; // depth layer the next update refreshes
+
+  // Grid placement in layout pixels, for a layout of this size
+  private width = -1;
+  private height = -1;
+  private originX = 0;
+  private originY = 0;
+  private spanX = 1;
+  private spanY = 1;
+
+  constructor(random: () => number = Math.random) {
+    this.seed = Math.floor(random() * 65536);
+  }
+
+  // Call once per tick before sampling. The eddies drift slowly, so each tick refreshes one
+  // depth layer of the grid in turn; a new layout refreshes them all.
+  update(time: number, f: number, width: number, height: number, drive: WindDrive) {
+    const ease = 1 - Math.pow(1 - DRIVE_SMOOTHING, f);
+    this.breath += (drive.breath - this.breath) * ease;
+    this.sway += (drive.sway - this.sway) * ease;
+
+    const t = time * NOISE_SPEED;
+    if (width !== this.width || height !== this.height) {
+      this.width = width;
+      this.height = height;
+      // Seeds can drift well off the sides and above the top before they're lost
+      this.originX = -width * 0.5;
+      this.originY = -height;
+      this.spanX = width * 2;
+      this.spanY = height * 2;
+      for (let k = 0; k < GRID_Z; k++) this.fillLayer(k, t);
+      return;
+    }
+    this.fillLayer(this.nextLayer, t);
+    this.nextLayer = (this.nextLayer + 1) % GRID_Z;
+  }
+
+  private fillLayer(k: number, t: number) {
+    const e = 0.5; // finite-difference step, in noise units
+    const z = WIND_NEAR + (k / (GRID_Z - 1)) * (WIND_FAR - WIND_NEAR);
+    let o = k * GRID_X * GRID_Y * 3;
+    for (let j = 0; j < GRID_Y; j++) {
+      const y = this.originY + (j / (GRID_Y - 1)) * this.spanY;
+      for (let i = 0; i < GRID_X; i++) {
+        const x = this.originX + (i / (GRID_X - 1)) * this.spanX;
+        // Depth shears the pattern so layers at different distances don't move in lockstep
+        const nx = (x + z * 0.7) * NOISE_SCALE;
+        const ny = y * NOISE_SCALE;
+
+        // Curl of a scalar potential: swirls without sources or sinks, so seeds don't bunch up
+        const dPdy = (valueNoise(nx, ny + e, t, this.seed) - valueNoise(nx, ny - e, t, this.seed)) / (2 * e);
+        const dPdx = (valueNoise(nx + e, ny, t, this.seed) - valueNoise(nx - e, ny, t, this.seed)) / (2 * e);
+        const vz = valueNoise(nx, ny, t + 17.3, this.seed + 1) * 2 - 1;
+
+        this.grid[o++] = dPdy * TURBULENCE;
+        this.grid[o++] = -dPdx * TURBULENCE;
+        this.grid[o++] = vz * TURBULENCE * 0.6;
+      }
+    }
+  }
+
+  // Wind velocity at a point, written into `out`
+  sample(x: number, y: number, z: number, out: Vector3): Vector3 {
+    const gx = Math.min(GRID_X - 1.001, Math.max(0, ((x - this.originX) / this.spanX) * (GRID_X - 1)));
+    const gy = Math.min(GRID_Y - 1.001, Math.max(0, ((y - this.originY) / this.spanY) * (GRID_Y - 1)));
+    const gz = Math.min(GRID_Z - 1.001, Math.max(0, ((z - WIND_NEAR) / (WIND_FAR - WIND_NEAR)) * (GRID_Z - 1)));
+    const i = Math.floor(gx), j = Math.floor(gy), k = Math.floor(gz);
+    const fx = gx - i, fy = gy - j, fz = gz - k;
+
+    // Trilinear blend of the eight surrounding grid points, written out: this runs per seed
+    const g = this.grid;
+    const sx = 3, sy = GRID_X * 3, sz = GRID_X * GRID_Y * 3;
+    const o = ((k * GRID_Y + j) * GRID_X + i) * 3;
+    const w000 = (1 - fx) * (1 - fy) * (1 - fz), w100 = fx * (1 - fy) * (1 - fz);
+    const w010 = (1 - fx) * fy * (1 - fz), w110 = fx * fy * (1 - fz);
+    const w001 = (1 - fx) * (1 - fy) * fz, w101 = fx * (1 - fy) * fz;
+    const w011 = (1 - fx) * fy * fz, w111 = fx * fy * fz;
+    const blend = (c: number) =>
+      g[c] * w000 + g[c + sx] * w100 + g[c + sy] * w010 + g[c + sx + sy] * w110 +
+      g[c + sz] * w001 + g[c + sx + sz] * w101 + g[c + sy + sz] * w011 + g[c + sx + sy + sz] * w111;
+    const vx = blend(o), vy = blend(o + 1), vz = blend(o + 2);
+
+    out.x = vx + BREEZE + this.sway * SWAY_PUSH;
+    out.y = vy - this.breath * BREATH_LIFT;
+    out.z = vz + this.breath * BREATH_PUSH;
+    return out;
+  }
+}
@@ -23,6 +23,9 @@ export interface Particle extends Vector3 {
   size: number;
   isAttached: boolean;
   color: string;
+  grip: number; // 0 to 1, how firmly the seed holds on
+  exposure: number; // 0 to 1, how much breath reaches it (front-facing seeds catch more)
+  stress: number; // accumulated breath; the seed lets go when this passes its grip
 }
 
 export enum GameState {
@@ -31,4 +34,196 @@ export enum GameState {
   REGROWING = 'REGROWING'
 }
 
+// Ids of the built-in themes; user themes have generated ids
 export type DandelionColor = 'white' | 'deepBlue' | 'lavender' | 'periwinkle' | 'pale' | 'pink';
+
+// A full color scheme. Colors are "#rrggbb" so themes can be edited with color pickers and shared as JSON.
+export interface DandelionTheme {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  seed: {
+    tip: string; // pappus hairs
+    mid: string; // fluff, and the top of the stem
+    core: string; // receptacle
+  };
+  sparkle: string;
+  stem: {
+    base: string;
+    mid: string;
+  };
+  sky: {
+    top: string;
+    middle: string;
+    bottom: string; // horizon
+  };
+}
+
+export type BreathPhase = 'INHALE' | 'HOLD_IN' | 'EXHALE' | 'HOLD_OUT';
+
+export interface BreathStep {
+  phase: BreathPhase;
+  duration: number; // seconds
+}
+
+export interface BreathingProgram {
+  id: string;
+  name: string;
+  description: string;
+  steps: BreathStep[];
+}
+
+export interface BreathGuideState {
+  phase: BreathPhase;
+  progress: number; // 0 to 1 through the current phase
+  secondsLeft: number;
+  cycle: number;
+  score: number; // 0 to 100, how closely the breath followed the pattern
+}
+
+// Breathing pattern estimated from the microphone, averaged over the last minute
+export interface RespirationStats {
+  bpm: number; // breaths per minute
+  exhaleSeconds: number;
+  inhaleSeconds: number; // includes any pause before the next exhale
+  ratio: number; // inhale / exhale
+  cycles: number; // breaths the averages are taken over
+}
+
+// Periodic snapshot of RespirationStats during a session
+export interface RespirationSample {
+  t: number; // seconds since the session started
+  bpm: number;
+  exhaleSeconds: number;
+  ratio: number;
+}
+
+export interface SessionRecord {
+  id: string;
+  startTime: number; // epoch ms
+  endTime: number;
+  releases: number;
+  happySways: number;
+  peakBlow: number; // 0 to 1
+  averageBlow: number; // 0 to 1, averaged over frames where a breath was detected
+  swaySeconds: number;
+  calmSeconds?: number; // time spent still, versus blowing or swaying
+  activeSeconds?: number;
+  plannedMinutes?: number; // timed sessions only
+  respiration?: RespirationSample[]; // only when the microphone was on
+}
+
+export type AchievementId =
+  | 'firstRelease'
+  | 'happySways10'
+  | 'calmFive'
+  | 'timedSession'
+  | 'streak3'
+  | 'streak7'
+  | 'everyTheme'
+  | 'releases100';
+
+// Saved between visits
+export interface AchievementState {
+  unlocked: Partial<Record<AchievementId, number>>; // epoch ms of each unlock
+  releasedThemes: string[]; // theme ids the user has released seeds in
+  completedSessions: number; // timed sessions run to the end
+}
+
+export interface PeriodTotals {
+  key: string; // YYYY-MM-DD (day, or the Monday a week starts on)
+  sessions: number;
+  releases: number;
+  happySways: number;
+  minutes: number;
+}
+
+export interface SensitivityProfile {
+  deviceId: string;
+  gain: number; // multiplier from average FFT magnitude (0-255) to 0-1 volume
+  gate: number; // volumes below this are treated as silence
+  threshold: number; // blow strength needed to release the seeds
+  calibratedAt: number;
+}
+
+export interface HeadPose {
+  x: number; // -1 (left) to 1 (right), mirrored like a selfie
+  y: number; // -1 (low in frame) to 1 (high in frame)
+  tilt: number; // radians, positive when the head leans toward the right of the screen
+  confidence: number; // 0 (subject lost) to 1
+}
+
+export type InputSourceId = 'microphone' | 'camera' | 'keyboard' | 'pointer' | 'gamepad' | 'replay';
+
+// How a mic or camera is doing. 'recovering' means its device went away and we're retrying;
+// 'lost' means we gave up until the next device is plugged in.
+export type SensorStatus = 'starting' | 'live' | 'recovering' | 'lost' | 'denied';
+
+// One frame of control input, whatever produced it
+export interface InputSignal {
+  sway: number; // -1 to 1
+  blow: number; // 0 to 1
+  nod?: number; // -1 to 1
+  tilt?: number; // radians
+  dt?: number; // replays only: the recorded frame time (ms) this reading stands for
+}
+
+// One canvas frame, as the simulation consumed it
+export interface TraceFrame extends InputSignal {
+  t: number; // ms of scene time since recording started, at the end of the frame
+}
+
+export interface TraceEvent {
+  t: number;
+  state: GameState;
+  flower?: string; // which dandelion changed, when there are several
+}
+
+// Versioned file format for recorded sensor sessions
+export interface SensorTrace {
+  version: number;
+  createdAt: string; // ISO timestamp
+  userAgent: string;
+  blowThreshold: number;
+  seed?: number; // the scene restarts from this when recording starts, and again on replay
+  frames: TraceFrame[];
+  events: TraceEvent[];
+}
+
+export type QualityTier = 'ultra' | 'high' | 'medium' | 'low' | 'minimal';
+
+export type SensorAction = 'IDLE' | 'BLOWING' | 'SWAYING';
+
+// One tick of the mixed sensor stream, as the canvas and UI see it
+export interface SensorFrame {
+  sway: number; // -1 to 1
+  blow: number; // 0 to 1
+  nod: number; // -1 to 1
+  tilt: number; // radians
+  action: SensorAction;
+  guide: BreathGuideState | null;
+  releaseAllowed: boolean; // false outside a guided exhale
+  respiration: RespirationStats | null;
+  dt?: number; // steps the scene by this instead of the wall clock, so replays play out as recorded
+  // A new object restarts the scene from flowers seeded with `value`. It rides along with the
+  // sensor values so a restart reaches the canvas in the same tick as the input that follows it.
+  sceneSeed?: { value: number };
+}
+
+// A dandelion that grew from a landed seed. Positions are fractions of the scene size.
+export interface MeadowPlant {
+  id: string;
+  x: number; // 0 (left) to 1 (right)
+  y: number; // 0 (top) to 1 (bottom), where the seed touched down
+  scale: number; // perspective size where it landed; nearer plants are bigger
+  theme: string; // id of the theme the seed was released in
+  plantedAt: number; // epoch ms
+}
+
+// One dandelion in the scene
+export interface FlowerSpec {
+  id: string;
+  x: number; // where it's planted, 0 (left) to 1 (right)
+  scale: number; // 1 for the main flower; smaller flowers have shorter stems and heads
+  theme: string; // theme id
+}